@@ -0,0 +1,194 @@
+/**
+ * Reference Sync Server - Device Registry
+ *
+ * Which devices may sync, kept in memory. The back office issues a one-time
+ * enrollment code for a location; a device trades it for an access token
+ * and a refresh token. Access tokens expire after `accessTokenTtl`; refresh
+ * tokens work once and are replaced on every refresh. Revoking a device
+ * shuts out every token it holds until it enrolls again with a new code.
+ */
+
+import { randomBytes, randomInt } from 'node:crypto';
+import type { DeviceCredentials, EnrollmentRequest } from '../src/lib/protocol';
+
+// Types
+export interface DeviceRegistryOptions {
+  accessTokenTtl?: number;
+  codeTtl?: number;
+  now?: () => number;
+}
+
+export interface EnrollmentCode {
+  code: string;
+  locationId: string;
+  expiresAt: number;
+}
+
+export interface DeviceRecord {
+  deviceId: string;
+  locationId: string;
+  name?: string;
+  enrolledAt: number;
+  revokedAt?: number;
+}
+
+export type TokenCheck =
+  | { status: 'valid'; device: DeviceRecord }
+  | { status: 'invalid' } // Missing, unknown or expired: the device should refresh
+  | { status: 'revoked'; device: DeviceRecord };
+
+export type IssueOutcome =
+  | { status: 'issued'; credentials: DeviceCredentials }
+  | { status: 'invalid' }
+  | { status: 'revoked' };
+
+interface AccessGrant {
+  deviceId: string;
+  expiresAt: number;
+}
+
+// Configuration
+const ACCESS_TOKEN_TTL = 15 * 60 * 1000; // 15 minutes
+const CODE_TTL = 24 * 60 * 60 * 1000; // 1 day
+const CODE_LENGTH = 8;
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'; // No 0/O or 1/I to misread
+
+export class DeviceRegistry {
+  private codes: Map<string, EnrollmentCode> = new Map();
+  private devices: Map<string, DeviceRecord> = new Map();
+  private accessTokens: Map<string, AccessGrant> = new Map();
+  private refreshTokens: Map<string, string> = new Map(); // Token -> device id
+  private accessTokenTtl: number;
+  private codeTtl: number;
+  private now: () => number;
+
+  constructor(options: DeviceRegistryOptions = {}) {
+    this.accessTokenTtl = options.accessTokenTtl ?? ACCESS_TOKEN_TTL;
+    this.codeTtl = options.codeTtl ?? CODE_TTL;
+    this.now = options.now ?? Date.now;
+  }
+
+  // ==================== Enrollment ====================
+
+  createEnrollmentCode(locationId: string): EnrollmentCode {
+    let code: string;
+    do {
+      code = Array.from({ length: CODE_LENGTH }, () => CODE_ALPHABET[randomInt(CODE_ALPHABET.length)]).join('');
+    } while (this.codes.has(code));
+
+    const enrollment = { code, locationId, expiresAt: this.now() + this.codeTtl };
+    this.codes.set(code, enrollment);
+    return enrollment;
+  }
+
+  /**
+   * Pair the device with the code's location and use the code up. A
+   * revoked device may come back this way; its old tokens stay dead.
+   */
+  enroll(request: EnrollmentRequest): IssueOutcome {
+    const code = normalizeCode(request.code);
+    const enrollment = this.codes.get(code);
+    if (!enrollment || enrollment.expiresAt <= this.now()) {
+      return { status: 'invalid' };
+    }
+
+    this.codes.delete(code);
+    this.forgetTokens(request.deviceId);
+    this.devices.set(request.deviceId, {
+      deviceId: request.deviceId,
+      locationId: enrollment.locationId,
+      name: request.name,
+      enrolledAt: this.now(),
+    });
+
+    return { status: 'issued', credentials: this.issue(request.deviceId) };
+  }
+
+  /**
+   * Swap a refresh token for a new pair. Access tokens issued before stay
+   * valid until they expire, so requests already in flight still land.
+   */
+  refresh(refreshToken: string): IssueOutcome {
+    const deviceId = this.refreshTokens.get(refreshToken);
+    const device = deviceId ? this.devices.get(deviceId) : undefined;
+    if (!device) return { status: 'invalid' };
+    if (device.revokedAt !== undefined) return { status: 'revoked' };
+
+    this.refreshTokens.delete(refreshToken);
+    return { status: 'issued', credentials: this.issue(device.deviceId) };
+  }
+
+  // ==================== Access ====================
+
+  authenticate(accessToken: string | null): TokenCheck {
+    const grant = accessToken ? this.accessTokens.get(accessToken) : undefined;
+    const device = grant ? this.devices.get(grant.deviceId) : undefined;
+    if (!grant || !device) return { status: 'invalid' };
+
+    // Revocation wins over expiry, so the device learns to stop instead of refreshing
+    if (device.revokedAt !== undefined) return { status: 'revoked', device };
+    if (grant.expiresAt <= this.now()) return { status: 'invalid' };
+    return { status: 'valid', device };
+  }
+
+  revoke(deviceId: string): boolean {
+    const device = this.devices.get(deviceId);
+    if (!device || device.revokedAt !== undefined) return false;
+
+    device.revokedAt = this.now();
+    return true;
+  }
+
+  getDevice(deviceId: string): DeviceRecord | null {
+    return this.devices.get(deviceId) ?? null;
+  }
+
+  listDevices(): DeviceRecord[] {
+    return Array.from(this.devices.values());
+  }
+
+  // ==================== Tokens ====================
+
+  private issue(deviceId: string): DeviceCredentials {
+    const expiresAt = this.now() + this.accessTokenTtl;
+    const accessToken = randomToken();
+    const refreshToken = randomToken();
+
+    this.accessTokens.set(accessToken, { deviceId, expiresAt });
+    this.refreshTokens.set(refreshToken, deviceId);
+    this.pruneExpired();
+
+    const { locationId } = this.devices.get(deviceId)!;
+    return { deviceId, locationId, accessToken, refreshToken, expiresAt };
+  }
+
+  private forgetTokens(deviceId: string): void {
+    this.accessTokens.forEach((grant, token) => {
+      if (grant.deviceId === deviceId) this.accessTokens.delete(token);
+    });
+    this.refreshTokens.forEach((owner, token) => {
+      if (owner === deviceId) this.refreshTokens.delete(token);
+    });
+  }
+
+  private pruneExpired(): void {
+    const now = this.now();
+    this.accessTokens.forEach((grant, token) => {
+      if (grant.expiresAt <= now) this.accessTokens.delete(token);
+    });
+    this.codes.forEach((enrollment, code) => {
+      if (enrollment.expiresAt <= now) this.codes.delete(code);
+    });
+  }
+}
+
+// ==================== Helpers ====================
+
+function randomToken(): string {
+  return randomBytes(32).toString('base64url');
+}
+
+// Codes are read off a screen and typed in; spacing and case do not matter
+function normalizeCode(code: string): string {
+  return code.replace(/[\s-]/g, '').toUpperCase();
+}
@@ -0,0 +1,50 @@
+/**
+ * Reference Sync Server
+ *
+ * Local stand-in for the POS backend, for development and end-to-end tests.
+ *
+ *   npm run server                         in-memory, port 3001
+ *   PORT=4000 SYNC_DATA_FILE=./sync-data.json npm run server
+ *   SYNC_LOCATION=store-2 SYNC_ADMIN_KEY=secret npm run server
+ *   SYNC_AUTH=off npm run server           no device enrollment
+ *
+ * Devices are registered in memory, so they enroll again after a restart
+ * with the code printed at startup.
+ */
+
+import { randomUUID } from 'node:crypto';
+import { DeviceRegistry } from './auth';
+import { startSyncServer } from './syncServer';
+import { SyncStore } from './syncStore';
+
+const port = Number(process.env.PORT ?? 3001);
+const dataFile = process.env.SYNC_DATA_FILE;
+const auth = process.env.SYNC_AUTH === 'off' ? undefined : new DeviceRegistry();
+const adminKey = process.env.SYNC_ADMIN_KEY ?? randomUUID();
+
+const server = await startSyncServer({
+  port,
+  host: process.env.HOST ?? 'localhost',
+  store: new SyncStore({ dataFile }),
+  auth,
+  adminKey,
+});
+
+console.log(`[SERVER] Sync API listening on ${server.url}`);
+console.log(`[SERVER] Storage: ${dataFile ? dataFile : 'in-memory'}`);
+
+if (auth) {
+  const enrollment = auth.createEnrollmentCode(process.env.SYNC_LOCATION ?? 'store-1');
+  console.log(`[SERVER] Enrollment code for ${enrollment.locationId}: ${enrollment.code}`);
+  console.log(`[SERVER] Admin key: ${adminKey}`);
+} else {
+  console.log('[SERVER] Device authentication is off');
+}
+
+const shutdown = async () => {
+  await server.close();
+  process.exit(0);
+};
+
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
@@ -0,0 +1,236 @@
+/**
+ * Reference Sync Server - Realtime Endpoint
+ *
+ * WebSocket at `{basePath}/realtime` that pushes a `ChangeEvent` to every
+ * subscriber after each stored change. Only what the endpoint needs of
+ * RFC 6455 is implemented: the handshake, unfragmented text frames out,
+ * and close/ping/pong frames in. Clients never send data.
+ *
+ * With a device registry, the handshake needs a valid access token in the
+ * `access_token` query parameter, and subscribers whose device is revoked
+ * are dropped before the next event reaches them.
+ */
+
+import { createHash } from 'node:crypto';
+import type { IncomingMessage, Server } from 'node:http';
+import type { Duplex } from 'node:stream';
+import { ACCESS_TOKEN_PARAM, PROTOCOL_VERSION, type RealtimeMessage } from '../src/lib/protocol';
+import type { DeviceRegistry } from './auth';
+import type { SyncStore } from './syncStore';
+
+// Types
+export interface RealtimeEndpointOptions {
+  store: SyncStore;
+  path: string;
+  heartbeatInterval?: number;
+  auth?: DeviceRegistry;
+}
+
+export interface RealtimeEndpoint {
+  readonly connections: number;
+  close(): void;
+}
+
+interface Subscriber {
+  socket: Duplex;
+  alive: boolean; // Answered the last ping
+  buffer: Buffer;
+  deviceId?: string; // When the endpoint checks tokens
+}
+
+// Configuration
+const HANDSHAKE_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+const HEARTBEAT_INTERVAL = 30000; // 30 seconds
+const MAX_FRAME_BYTES = 64 * 1024; // Clients only send control frames
+
+const OPCODE = { text: 0x1, close: 0x8, ping: 0x9, pong: 0xa } as const;
+
+// ==================== Endpoint ====================
+
+export function attachRealtime(server: Server, options: RealtimeEndpointOptions): RealtimeEndpoint {
+  const subscribers = new Set<Subscriber>();
+
+  const drop = (subscriber: Subscriber) => {
+    subscribers.delete(subscriber);
+    subscriber.socket.destroy();
+  };
+
+  const broadcast = (message: RealtimeMessage) => {
+    const frame = encodeFrame(OPCODE.text, Buffer.from(JSON.stringify(message)));
+    subscribers.forEach((subscriber) => {
+      if (subscriber.deviceId && options.auth?.getDevice(subscriber.deviceId)?.revokedAt !== undefined) {
+        drop(subscriber);
+        return;
+      }
+      subscriber.socket.write(frame);
+    });
+  };
+
+  const unsubscribe = options.store.subscribe(broadcast);
+
+  // Connections that stop answering pings are gone without a close frame
+  const heartbeat = setInterval(() => {
+    subscribers.forEach((subscriber) => {
+      if (!subscriber.alive) {
+        drop(subscriber);
+        return;
+      }
+      subscriber.alive = false;
+      subscriber.socket.write(encodeFrame(OPCODE.ping, Buffer.alloc(0)));
+    });
+  }, options.heartbeatInterval ?? HEARTBEAT_INTERVAL);
+  heartbeat.unref();
+
+  const onUpgrade = (request: IncomingMessage, socket: Duplex) => {
+    const url = new URL(request.url ?? '/', 'http://localhost');
+    const key = request.headers['sec-websocket-key'];
+
+    if (url.pathname !== options.path || request.headers.upgrade?.toLowerCase() !== 'websocket') {
+      reject(socket, 404, 'Not Found');
+      return;
+    }
+
+    const protocol = url.searchParams.get('protocol');
+    if (typeof key !== 'string' || (protocol !== null && Number(protocol) !== PROTOCOL_VERSION)) {
+      reject(socket, 400, 'Bad Request');
+      return;
+    }
+
+    let deviceId: string | undefined;
+    if (options.auth) {
+      const check = options.auth.authenticate(url.searchParams.get(ACCESS_TOKEN_PARAM));
+      if (check.status !== 'valid') {
+        if (check.status === 'revoked') reject(socket, 403, 'Forbidden');
+        else reject(socket, 401, 'Unauthorized');
+        return;
+      }
+      deviceId = check.device.deviceId;
+    }
+
+    const accept = createHash('sha1').update(key + HANDSHAKE_GUID).digest('base64');
+    socket.write(
+      [
+        'HTTP/1.1 101 Switching Protocols',
+        'Upgrade: websocket',
+        'Connection: Upgrade',
+        `Sec-WebSocket-Accept: ${accept}`,
+        '',
+        '',
+      ].join('\r\n')
+    );
+
+    const subscriber: Subscriber = { socket, alive: true, buffer: Buffer.alloc(0), deviceId };
+    subscribers.add(subscriber);
+    console.log(`[SERVER] Realtime subscriber connected (${subscribers.size} open)`);
+
+    socket.on('data', (chunk: Buffer) => {
+      subscriber.buffer = Buffer.concat([subscriber.buffer, chunk]);
+      if (!readFrames(subscriber)) drop(subscriber);
+    });
+    socket.on('error', () => drop(subscriber));
+    socket.on('close', () => subscribers.delete(subscriber));
+  };
+
+  server.on('upgrade', onUpgrade);
+
+  return {
+    get connections() {
+      return subscribers.size;
+    },
+
+    close() {
+      unsubscribe();
+      clearInterval(heartbeat);
+      server.off('upgrade', onUpgrade);
+      subscribers.forEach(drop);
+    },
+  };
+}
+
+// ==================== Framing ====================
+
+/**
+ * Handle every complete frame in the buffer; false when the connection
+ * should be dropped
+ */
+function readFrames(subscriber: Subscriber): boolean {
+  for (;;) {
+    const frame = decodeFrame(subscriber.buffer);
+    if (frame === 'invalid') return false;
+    if (!frame) return true;
+
+    subscriber.buffer = subscriber.buffer.subarray(frame.length);
+
+    switch (frame.opcode) {
+      case OPCODE.close:
+        subscriber.socket.end(encodeFrame(OPCODE.close, frame.payload.subarray(0, 2)));
+        return true;
+      case OPCODE.ping:
+        subscriber.socket.write(encodeFrame(OPCODE.pong, frame.payload));
+        break;
+      case OPCODE.pong:
+        subscriber.alive = true;
+        break;
+      // Data frames carry nothing the server acts on
+    }
+  }
+}
+
+function decodeFrame(buffer: Buffer): { opcode: number; payload: Buffer; length: number } | 'invalid' | null {
+  if (buffer.length < 2) return null;
+
+  const opcode = buffer[0] & 0x0f;
+  const masked = (buffer[1] & 0x80) !== 0;
+  let payloadLength = buffer[1] & 0x7f;
+  let offset = 2;
+
+  // Client frames must be masked (RFC 6455, section 5.1)
+  if (!masked) return 'invalid';
+
+  if (payloadLength === 126) {
+    if (buffer.length < 4) return null;
+    payloadLength = buffer.readUInt16BE(2);
+    offset = 4;
+  } else if (payloadLength === 127) {
+    if (buffer.length < 10) return null;
+    const length = buffer.readBigUInt64BE(2);
+    if (length > BigInt(MAX_FRAME_BYTES)) return 'invalid';
+    payloadLength = Number(length);
+    offset = 10;
+  }
+
+  if (payloadLength > MAX_FRAME_BYTES) return 'invalid';
+  if (buffer.length < offset + 4 + payloadLength) return null;
+
+  const mask = buffer.subarray(offset, offset + 4);
+  const payload = Buffer.from(buffer.subarray(offset + 4, offset + 4 + payloadLength));
+  for (let i = 0; i < payload.length; i++) {
+    payload[i] ^= mask[i % 4];
+  }
+
+  return { opcode, payload, length: offset + 4 + payloadLength };
+}
+
+function encodeFrame(opcode: number, payload: Buffer): Buffer {
+  let header: Buffer;
+
+  if (payload.length < 126) {
+    header = Buffer.from([0x80 | opcode, payload.length]);
+  } else if (payload.length < 65536) {
+    header = Buffer.alloc(4);
+    header[0] = 0x80 | opcode;
+    header[1] = 126;
+    header.writeUInt16BE(payload.length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x80 | opcode;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(payload.length), 2);
+  }
+
+  return Buffer.concat([header, payload]);
+}
+
+function reject(socket: Duplex, status: number, reason: string): void {
+  socket.end(`HTTP/1.1 ${status} ${reason}\r\nConnection: close\r\nContent-Length: 0\r\n\r\n`);
+}
@@ -0,0 +1,475 @@
+/**
+ * Reference Sync Server - HTTP API
+ *
+ * Implements the REST contract the client expects under `/api/v1`:
+ *
+ *   HEAD|GET /health                     liveness probe
+ *   POST     /{entity}/batch             upsert records, one outcome per item
+ *   GET      /{entity}/changes?since=<cursor>&limit=
+ *                                        change feed, paginated via `hasMore` and `cursor`,
+ *                                        with the count of `remaining` changes
+ *   GET      /{entity}/{id}              single record (used on write conflicts)
+ *   PUT      /{entity}/{id}              upsert one record; 409 with `current` on conflict
+ *   DELETE   /{entity}/{id}              store a tombstone; optional tombstone body
+ *   GET      /realtime                   WebSocket change events (see `./realtime.ts`),
+ *                                        attached by `startSyncServer`
+ *
+ *   POST     /devices/enroll             trade a one-time code for device credentials
+ *   POST     /devices/refresh            trade a refresh token for new credentials
+ *   POST     /devices/codes              (admin) issue an enrollment code for a location
+ *   DELETE   /devices/{id}               (admin) revoke a device
+ *
+ * With an `auth` registry, every route except health and the device routes
+ * requires a bearer token (see `./auth.ts`); admin routes require the
+ * `X-Admin-Key` header to match `adminKey`. Without one, nothing is checked.
+ *
+ * Clients list the encodings they can use in `X-Sync-Capabilities`; every
+ * response carries the ones both sides share. With `gzip`, request bodies
+ * may arrive compressed and large responses are compressed; with `delta`,
+ * batch items may be `WireDelta`s, applied only to the version they name.
+ *
+ * Payload shapes are defined in `src/lib/protocol.ts`. Writes carrying an
+ * `Idempotency-Key` header are answered from a replay cache when the same
+ * device retries them, so a write that timed out on the client is applied once.
+ */
+
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { gunzipSync, gzipSync } from 'node:zlib';
+import {
+  CAPABILITIES_HEADER,
+  PROTOCOL_HEADER,
+  PROTOCOL_VERSION,
+  formatCapabilities,
+  isWireDelta,
+  parseCapabilities,
+  type BatchItemResult,
+  type ErrorResponse,
+  type ProtocolErrorCode,
+  type SyncCapability,
+} from '../src/lib/protocol';
+import type { DeviceRegistry, IssueOutcome } from './auth';
+import { attachRealtime } from './realtime';
+import { SyncStore, type WriteOutcome } from './syncStore';
+
+// Types
+export interface SyncServerOptions {
+  store?: SyncStore;
+  entities?: string[];
+  basePath?: string;
+  auth?: DeviceRegistry; // Require device tokens
+  adminKey?: string; // Enables the admin device routes
+  capabilities?: SyncCapability[]; // Payload encodings offered to clients
+}
+
+export interface RunningSyncServer {
+  url: string; // Base URL including the API path, e.g. http://127.0.0.1:3001/api/v1
+  store: SyncStore;
+  auth?: DeviceRegistry;
+  close(): Promise<void>;
+}
+
+interface Reply {
+  status: number;
+  body?: unknown;
+}
+
+class HttpError extends Error {
+  readonly status: number;
+  readonly code: ProtocolErrorCode;
+
+  constructor(status: number, code: ProtocolErrorCode, message: string) {
+    super(message);
+    this.name = 'HttpError';
+    this.status = status;
+    this.code = code;
+  }
+}
+
+// Configuration
+const DEFAULT_ENTITIES = ['products', 'orders', 'inventory'];
+const DEFAULT_BASE_PATH = '/api/v1';
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 500;
+const MAX_BODY_BYTES = 5 * 1024 * 1024; // 5 MB
+const MIN_GZIP_BYTES = 1024; // Smaller replies barely shrink
+const IDEMPOTENCY_CACHE_SIZE = 1000;
+const ADMIN_KEY_HEADER = 'x-admin-key';
+const DEFAULT_CAPABILITIES: SyncCapability[] = ['gzip', 'delta'];
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, HEAD, POST, PUT, DELETE, OPTIONS',
+  'Access-Control-Allow-Headers': `Content-Type, Content-Encoding, Authorization, Idempotency-Key, X-Admin-Key, ${PROTOCOL_HEADER}, ${CAPABILITIES_HEADER}`,
+  'Access-Control-Expose-Headers': `${PROTOCOL_HEADER}, ${CAPABILITIES_HEADER}`,
+};
+
+const STALE_DELTA_MESSAGE = 'Delta base version is not the current version; send the full record';
+
+const NOT_FOUND: Reply = { status: 404, body: errorBody('not_found', 'Not found') };
+
+// ==================== Server ====================
+
+export function createSyncServer(options: SyncServerOptions = {}): Server {
+  const store = options.store ?? new SyncStore();
+  const entities = new Set(options.entities ?? DEFAULT_ENTITIES);
+  const basePath = options.basePath ?? DEFAULT_BASE_PATH;
+  const auth = options.auth;
+  const capabilities = new Set(options.capabilities ?? DEFAULT_CAPABILITIES);
+  const replies = new Map<string, Reply>();
+
+  const routeDevices = async (request: IncomingMessage, method: string, resource: string): Promise<Reply> => {
+    if (!auth) return NOT_FOUND;
+
+    if (resource === 'enroll' || resource === 'refresh') {
+      if (method !== 'POST') throw methodNotAllowed();
+      const body = (await readBody(request)) as Record<string, unknown> | undefined;
+
+      if (resource === 'enroll') {
+        if (typeof body?.code !== 'string' || typeof body.deviceId !== 'string' || !body.deviceId) {
+          throw new HttpError(400, 'invalid_request', 'Enrollment needs a `code` and a `deviceId`');
+        }
+        const name = typeof body.name === 'string' ? body.name : undefined;
+        const outcome = auth.enroll({ code: body.code, deviceId: body.deviceId, name });
+        if (outcome.status === 'invalid') {
+          throw new HttpError(400, 'invalid_request', 'Enrollment code is invalid, used or expired');
+        }
+        console.log(`[SERVER] Device ${body.deviceId} enrolled`);
+        return toCredentialsReply(outcome);
+      }
+
+      if (typeof body?.refreshToken !== 'string') {
+        throw new HttpError(400, 'invalid_request', 'Refresh needs a `refreshToken`');
+      }
+      return toCredentialsReply(auth.refresh(body.refreshToken));
+    }
+
+    // Admin routes
+    if (!options.adminKey || request.headers[ADMIN_KEY_HEADER] !== options.adminKey) {
+      throw new HttpError(401, 'unauthorized', 'Admin key required');
+    }
+
+    if (resource === 'codes' && method === 'POST') {
+      const body = (await readBody(request)) as { locationId?: unknown } | undefined;
+      if (typeof body?.locationId !== 'string' || !body.locationId) {
+        throw new HttpError(400, 'invalid_request', 'An enrollment code needs a `locationId`');
+      }
+      return { status: 201, body: auth.createEnrollmentCode(body.locationId) };
+    }
+
+    if (method === 'DELETE') {
+      if (!auth.getDevice(resource)) return NOT_FOUND;
+      auth.revoke(resource);
+      console.log(`[SERVER] Device ${resource} revoked`);
+      return { status: 200, body: auth.getDevice(resource) };
+    }
+
+    throw methodNotAllowed();
+  };
+
+  const segmentsOf = (url: URL): string[] =>
+    url.pathname.slice(basePath.length + 1).split('/').map(decodeURIComponent);
+
+  /**
+   * The device making the request, or null where no token is needed.
+   * Throws for a missing, invalid, expired or revoked token.
+   */
+  const authenticate = (request: IncomingMessage, url: URL): string | null => {
+    if (!auth || !url.pathname.startsWith(`${basePath}/`)) return null;
+
+    const segments = segmentsOf(url);
+    const open =
+      (segments.length === 1 && segments[0] === 'health') ||
+      (segments.length === 2 && segments[0] === 'devices');
+    if (open) return null;
+
+    const check = auth.authenticate(bearerToken(request));
+    if (check.status === 'revoked') {
+      throw new HttpError(403, 'device_revoked', 'This device has been revoked');
+    }
+    if (check.status === 'invalid') {
+      throw new HttpError(401, 'unauthorized', 'Missing, invalid or expired access token');
+    }
+    return check.device.deviceId;
+  };
+
+  const route = async (request: IncomingMessage, url: URL): Promise<Reply> => {
+    if (!url.pathname.startsWith(`${basePath}/`)) {
+      return NOT_FOUND;
+    }
+
+    const protocol = request.headers[PROTOCOL_HEADER.toLowerCase()];
+    if (typeof protocol === 'string' && Number(protocol) !== PROTOCOL_VERSION) {
+      const message = `Protocol version ${protocol} is not supported (expected ${PROTOCOL_VERSION})`;
+      throw new HttpError(400, 'unsupported_protocol', message);
+    }
+
+    const segments = segmentsOf(url);
+    const method = request.method ?? 'GET';
+
+    if (segments.length === 1 && segments[0] === 'health') {
+      if (method !== 'HEAD' && method !== 'GET') throw methodNotAllowed();
+      return { status: 200, body: { status: 'ok' } };
+    }
+
+    if (segments.length === 2 && segments[0] === 'devices') {
+      return routeDevices(request, method, segments[1]);
+    }
+
+    const [entity, resource] = segments;
+    if (segments.length !== 2 || !entities.has(entity) || !resource) {
+      return NOT_FOUND;
+    }
+
+    if (resource === 'changes' && method === 'GET') {
+      const since = Number(url.searchParams.get('since') ?? 0);
+      const limit = Number(url.searchParams.get('limit') ?? DEFAULT_PAGE_SIZE);
+      if (!Number.isFinite(since) || !Number.isInteger(limit) || limit < 1) {
+        const message = '`since` must be a cursor from a previous page and `limit` a positive integer';
+        throw new HttpError(400, 'invalid_request', message);
+      }
+      return { status: 200, body: store.changes(entity, since, Math.min(limit, MAX_PAGE_SIZE)) };
+    }
+
+    if (resource === 'batch' && method === 'POST') {
+      const records = await readBody(request);
+      if (!Array.isArray(records)) {
+        throw new HttpError(400, 'invalid_request', 'Batch body must be an array of records');
+      }
+
+      const results = records.map((record) =>
+        toBatchResult(record, isWireDelta(record) ? store.patch(entity, record) : store.write(entity, record))
+      );
+      return { status: 200, body: { results } };
+    }
+
+    switch (method) {
+      case 'GET': {
+        const record = store.get(entity, resource);
+        return record ? { status: 200, body: record } : NOT_FOUND;
+      }
+      case 'PUT': {
+        const record = await readBody(request);
+        if ((record as { id?: unknown })?.id !== resource) {
+          throw new HttpError(400, 'invalid_request', 'Record id does not match the URL');
+        }
+        return toReply(store.write(entity, record));
+      }
+      case 'DELETE': {
+        const outcome = store.remove(entity, resource, await readBody(request));
+        return outcome ? toReply(outcome) : NOT_FOUND;
+      }
+      default:
+        throw methodNotAllowed();
+    }
+  };
+
+  const handle = async (request: IncomingMessage, response: ServerResponse) => {
+    const url = new URL(request.url ?? '/', 'http://localhost');
+
+    if (request.method === 'OPTIONS') {
+      response.writeHead(204, CORS_HEADERS).end();
+      return;
+    }
+
+    const idempotencyKey = request.headers['idempotency-key'];
+    const replayable =
+      typeof idempotencyKey === 'string' && request.method !== 'GET' && request.method !== 'HEAD';
+
+    let reply: Reply;
+    let replayKey: string | null = null;
+    let replayed = false;
+
+    try {
+      // Before the replay cache, which only answers the device that made the write
+      const deviceId = authenticate(request, url);
+      if (replayable) {
+        replayKey = `${deviceId ?? '-'} ${request.method} ${url.pathname} ${idempotencyKey}`;
+      }
+
+      const cached = replayKey ? replies.get(replayKey) : undefined;
+      replayed = cached !== undefined;
+      reply = cached ?? (await route(request, url));
+    } catch (error) {
+      if (error instanceof HttpError) {
+        reply = { status: error.status, body: errorBody(error.code, error.message) };
+      } else {
+        console.error('[SERVER] Request failed:', error);
+        reply = { status: 500, body: errorBody('internal', String(error)) };
+      }
+    }
+
+    // Remember outcomes only: server errors should be retried for real, and
+    // a refused token must not outlive the refresh that replaces it
+    const outcome = reply.status < 500 && reply.status !== 401 && reply.status !== 403;
+    if (replayKey && !replayed && outcome) {
+      replies.set(replayKey, reply);
+      if (replies.size > IDEMPOTENCY_CACHE_SIZE) {
+        replies.delete(replies.keys().next().value!);
+      }
+    }
+
+    console.log(`[SERVER] ${request.method} ${url.pathname}${url.search} -> ${reply.status}`);
+
+    // Only what the client also named is used, and the client learns it here
+    const shared = Array.from(parseCapabilities(header(request, CAPABILITIES_HEADER))).filter((capability) =>
+      capabilities.has(capability)
+    );
+
+    let payload: Buffer = Buffer.from(reply.body === undefined ? '' : JSON.stringify(reply.body));
+    const compress = shared.includes('gzip') && payload.length >= MIN_GZIP_BYTES;
+    if (compress) payload = gzipSync(payload);
+
+    response.writeHead(reply.status, {
+      ...CORS_HEADERS,
+      'Content-Type': 'application/json',
+      'Content-Length': payload.length,
+      ...(compress && { 'Content-Encoding': 'gzip' }),
+      [PROTOCOL_HEADER]: String(PROTOCOL_VERSION),
+      [CAPABILITIES_HEADER]: formatCapabilities(shared),
+    });
+    response.end(request.method === 'HEAD' ? undefined : payload);
+  };
+
+  return createServer((request, response) => {
+    handle(request, response).catch((error) => {
+      console.error('[SERVER] Unhandled error:', error);
+      if (!response.headersSent) response.writeHead(500, CORS_HEADERS);
+      response.end();
+    });
+  });
+}
+
+/**
+ * Start a server and resolve once it is listening. Port 0 picks a free
+ * port, which keeps parallel end-to-end runs apart.
+ */
+export function startSyncServer(
+  options: SyncServerOptions & { port?: number; host?: string } = {}
+): Promise<RunningSyncServer> {
+  const store = options.store ?? new SyncStore();
+  const server = createSyncServer({ ...options, store });
+  const host = options.host ?? '127.0.0.1';
+  const basePath = options.basePath ?? DEFAULT_BASE_PATH;
+  const realtime = attachRealtime(server, { store, path: `${basePath}/realtime`, auth: options.auth });
+
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port ?? 0, host, () => {
+      const { port } = server.address() as AddressInfo;
+
+      resolve({
+        url: `http://${host}:${port}${basePath}`,
+        store,
+        auth: options.auth,
+        close: () =>
+          new Promise<void>((done, fail) => {
+            // Upgraded sockets are not HTTP connections, so they are closed separately
+            realtime.close();
+            server.close((error) => (error ? fail(error) : done()));
+            server.closeAllConnections();
+          }),
+      });
+    });
+  });
+}
+
+// ==================== Helpers ====================
+
+function toReply(outcome: WriteOutcome): Reply {
+  switch (outcome.status) {
+    case 'accepted':
+      return { status: 200, body: outcome.record };
+    case 'conflict':
+      return {
+        status: 409,
+        body: { ...errorBody('conflict', 'Version conflict'), current: outcome.current },
+      };
+    case 'rejected':
+      return { status: 400, body: errorBody('invalid_request', outcome.error) };
+    case 'stale':
+      return { status: 409, body: errorBody('base_mismatch', STALE_DELTA_MESSAGE) };
+  }
+}
+
+function toBatchResult(record: unknown, outcome: WriteOutcome): BatchItemResult {
+  const id = String((record as { id?: unknown } | null)?.id ?? '');
+
+  switch (outcome.status) {
+    case 'accepted':
+      return { id, status: 'accepted', version: outcome.record.version, record: outcome.record };
+    case 'conflict':
+      return { id, status: 'conflict', current: outcome.current };
+    case 'rejected':
+      return { id, status: 'rejected', error: { code: 'invalid_request', message: outcome.error } };
+    case 'stale':
+      return { id, status: 'rejected', error: { code: 'base_mismatch', message: STALE_DELTA_MESSAGE } };
+  }
+}
+
+function toCredentialsReply(outcome: IssueOutcome): Reply {
+  switch (outcome.status) {
+    case 'issued':
+      return { status: 200, body: outcome.credentials };
+    case 'invalid':
+      return { status: 401, body: errorBody('unauthorized', 'Refresh token is invalid or used') };
+    case 'revoked':
+      return { status: 403, body: errorBody('device_revoked', 'This device has been revoked') };
+  }
+}
+
+function header(request: IncomingMessage, name: string): string | undefined {
+  const value = request.headers[name.toLowerCase()];
+  return Array.isArray(value) ? value.join(', ') : value;
+}
+
+function bearerToken(request: IncomingMessage): string | null {
+  const match = /^Bearer (.+)$/i.exec(request.headers.authorization ?? '');
+  return match ? match[1] : null;
+}
+
+function errorBody(code: ProtocolErrorCode, message: string): ErrorResponse {
+  return { error: { code, message } };
+}
+
+function methodNotAllowed(): HttpError {
+  return new HttpError(405, 'method_not_allowed', 'Method not allowed');
+}
+
+/**
+ * Parsed JSON body, or undefined when the request has none. Gzipped bodies
+ * are limited by their decompressed size.
+ */
+async function readBody(request: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of request) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new HttpError(413, 'payload_too_large', 'Request body too large');
+    }
+    chunks.push(chunk);
+  }
+
+  let raw = Buffer.concat(chunks);
+  if (header(request, 'Content-Encoding') === 'gzip') {
+    try {
+      raw = gunzipSync(raw, { maxOutputLength: MAX_BODY_BYTES });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ERR_BUFFER_TOO_LARGE') {
+        throw new HttpError(413, 'payload_too_large', 'Request body too large');
+      }
+      throw new HttpError(400, 'invalid_request', 'Request body is not valid gzip');
+    }
+  }
+
+  const text = raw.toString('utf8');
+  if (!text) return undefined;
+
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new HttpError(400, 'invalid_request', 'Request body is not valid JSON');
+  }
+}
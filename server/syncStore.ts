@@ -0,0 +1,280 @@
+/**
+ * Reference Sync Server - Record Store
+ *
+ * In-memory (optionally file-backed) store behind the reference server.
+ * Every accepted write gets the next server version and a strictly
+ * increasing `updatedAt`, which doubles as the change-feed position, and
+ * writes that have not seen the stored version are refused as conflicts.
+ */
+
+import { existsSync, readFileSync, renameSync, writeFileSync } from 'node:fs';
+import {
+  applyWireDelta,
+  parseWireDelta,
+  type ChangeEvent,
+  type ChangeFeedPage,
+  type WireDelta,
+  type WireRecord,
+} from '../src/lib/protocol';
+import { compareClocks } from '../src/lib/vectorClock';
+
+// Types
+export interface ServerRecord extends WireRecord {
+  version: number; // Server-assigned, bumped on every accepted write
+  updatedAt: number; // Server time, unique per change
+}
+
+export type WriteOutcome =
+  | { status: 'accepted'; record: ServerRecord }
+  | { status: 'conflict'; current: ServerRecord } // The version the writer has not seen
+  | { status: 'rejected'; error: string }
+  | { status: 'stale' }; // A delta made on a version the store no longer holds
+
+export interface SyncStoreOptions {
+  dataFile?: string; // Persist to this JSON file; in-memory only when omitted
+  now?: () => number;
+}
+
+interface Snapshot {
+  lastUpdatedAt: number;
+  entities: Record<string, ServerRecord[]>;
+}
+
+export class SyncStore {
+  private entities: Map<string, Map<string, ServerRecord>> = new Map();
+  private lastChanges: Map<string, number> = new Map(); // Feed position per entity
+  private lastUpdatedAt = 0;
+  private listeners: Set<(event: ChangeEvent) => void> = new Set();
+  private dataFile?: string;
+  private now: () => number;
+
+  constructor(options: SyncStoreOptions = {}) {
+    this.dataFile = options.dataFile;
+    this.now = options.now ?? Date.now;
+    this.load();
+  }
+
+  // ==================== Reads ====================
+
+  get(entity: string, id: string): ServerRecord | null {
+    return this.entities.get(entity)?.get(id) ?? null;
+  }
+
+  /**
+   * Changes after `since` in the order they were made, tombstones included.
+   * Cursors are the `updatedAt` of the last change on a page; clients treat
+   * them as opaque.
+   */
+  changes(entity: string, since: number, limit: number): ChangeFeedPage {
+    const changed = Array.from(this.entities.get(entity)?.values() ?? [])
+      .filter((record) => record.updatedAt > since)
+      .sort((a, b) => a.updatedAt - b.updatedAt);
+
+    const items = changed.slice(0, limit);
+    const last = items[items.length - 1];
+
+    return {
+      items,
+      hasMore: changed.length > items.length,
+      cursor: String(last ? last.updatedAt : since),
+      remaining: changed.length - items.length,
+    };
+  }
+
+  // ==================== Writes ====================
+
+  /**
+   * Store a record (or tombstone) unless the stored version is one the
+   * writer has not seen. Writes without a vector clock simply overwrite.
+   */
+  write(entity: string, incoming: unknown): WriteOutcome {
+    if (!isWireRecord(incoming)) {
+      return { status: 'rejected', error: 'Record must be an object with a string `id`' };
+    }
+
+    const current = this.get(entity, incoming.id);
+
+    if (current && incoming.vectorClock) {
+      switch (compareClocks(incoming.vectorClock, current.vectorClock ?? {})) {
+        case 'equal':
+          // Same history as the stored version: a replayed write, or a
+          // device reporting that it has seen a tombstone
+          return { status: 'accepted', record: this.acknowledge(entity, current, incoming.acknowledgedBy) };
+        case 'before':
+        case 'concurrent':
+          return { status: 'conflict', current };
+      }
+    }
+
+    const record: ServerRecord = {
+      ...incoming,
+      version: (current?.version ?? 0) + 1,
+      updatedAt: this.tick(),
+    };
+    delete record.syncStatus;
+
+    if (record.deletedAt !== undefined) {
+      record.acknowledgedBy = mergeAcknowledgements(
+        current?.acknowledgedBy,
+        incoming.acknowledgedBy,
+        incoming.deviceId ? [incoming.deviceId] : []
+      );
+    }
+
+    this.put(entity, record);
+    return { status: 'accepted', record };
+  }
+
+  /**
+   * Store a delta-encoded update. It only describes a record together with
+   * the version it was made on, so on any other version it is `stale` and
+   * the writer sends the record in full instead.
+   */
+  patch(entity: string, incoming: unknown): WriteOutcome {
+    let delta: WireDelta;
+    try {
+      delta = parseWireDelta(incoming);
+    } catch (error) {
+      return { status: 'rejected', error: (error as Error).message };
+    }
+
+    const current = this.get(entity, delta.id);
+    if (!current || current.deletedAt !== undefined || current.version !== delta.$delta.baseVersion) {
+      return { status: 'stale' };
+    }
+
+    return this.write(entity, applyWireDelta(current, delta));
+  }
+
+  /**
+   * Delete by storing a tombstone, so the deletion reaches other devices.
+   * Returns null when there is neither a record nor a tombstone to store.
+   */
+  remove(entity: string, id: string, tombstone?: unknown): WriteOutcome | null {
+    if (tombstone !== undefined) {
+      if (!isWireRecord(tombstone) || tombstone.id !== id) {
+        return { status: 'rejected', error: 'Tombstone must carry the deleted record id' };
+      }
+      return this.write(entity, { ...tombstone, deletedAt: tombstone.deletedAt ?? this.now() });
+    }
+
+    const current = this.get(entity, id);
+    if (!current) return null;
+    if (current.deletedAt !== undefined) return { status: 'accepted', record: current };
+
+    // No client history to compare against: the server's delete wins
+    const record: ServerRecord = {
+      id,
+      version: current.version + 1,
+      vectorClock: current.vectorClock,
+      deviceId: 'server',
+      updatedAt: this.tick(),
+      deletedAt: this.now(),
+      acknowledgedBy: [],
+    };
+
+    this.put(entity, record);
+    return { status: 'accepted', record };
+  }
+
+  /**
+   * Add acknowledgements to a stored tombstone. It moves up the change feed,
+   * so every device learns who has seen the delete.
+   */
+  private acknowledge(entity: string, current: ServerRecord, acknowledgedBy?: string[]): ServerRecord {
+    if (current.deletedAt === undefined) return current;
+
+    const merged = mergeAcknowledgements(current.acknowledgedBy, acknowledgedBy);
+    if (merged.length === (current.acknowledgedBy?.length ?? 0)) return current;
+
+    const record: ServerRecord = { ...current, acknowledgedBy: merged, updatedAt: this.tick() };
+    this.put(entity, record);
+    return record;
+  }
+
+  reset(): void {
+    this.entities.clear();
+    this.lastChanges.clear();
+    this.lastUpdatedAt = 0;
+    this.save();
+  }
+
+  // ==================== Change Events ====================
+
+  /**
+   * Called after every stored change, with the feed position before and after it
+   */
+  subscribe(listener: (event: ChangeEvent) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  // ==================== Persistence ====================
+
+  private put(entity: string, record: ServerRecord): void {
+    if (!this.entities.has(entity)) {
+      this.entities.set(entity, new Map());
+    }
+    this.entities.get(entity)!.set(record.id, record);
+    this.save();
+
+    const since = this.lastChanges.get(entity) ?? 0;
+    this.lastChanges.set(entity, record.updatedAt);
+
+    const event: ChangeEvent = {
+      type: 'changes',
+      entity,
+      items: [record],
+      since: String(since),
+      cursor: String(record.updatedAt),
+    };
+    this.listeners.forEach((listener) => listener(event));
+  }
+
+  private load(): void {
+    if (!this.dataFile || !existsSync(this.dataFile)) return;
+
+    const snapshot: Snapshot = JSON.parse(readFileSync(this.dataFile, 'utf8'));
+    this.lastUpdatedAt = snapshot.lastUpdatedAt;
+
+    for (const [entity, records] of Object.entries(snapshot.entities)) {
+      this.entities.set(entity, new Map(records.map((record) => [record.id, record])));
+      this.lastChanges.set(
+        entity,
+        records.reduce((last, record) => Math.max(last, record.updatedAt), 0)
+      );
+    }
+  }
+
+  private save(): void {
+    if (!this.dataFile) return;
+
+    const snapshot: Snapshot = {
+      lastUpdatedAt: this.lastUpdatedAt,
+      entities: Object.fromEntries(
+        Array.from(this.entities, ([entity, records]) => [entity, Array.from(records.values())])
+      ),
+    };
+
+    // Write-then-rename, so a crash never leaves a half-written file
+    const temporary = `${this.dataFile}.tmp`;
+    writeFileSync(temporary, JSON.stringify(snapshot));
+    renameSync(temporary, this.dataFile);
+  }
+
+  /**
+   * Server time, nudged forward so no two changes share a timestamp
+   */
+  private tick(): number {
+    this.lastUpdatedAt = Math.max(this.now(), this.lastUpdatedAt + 1);
+    return this.lastUpdatedAt;
+  }
+}
+
+function isWireRecord(value: unknown): value is WireRecord {
+  return typeof value === 'object' && value !== null && typeof (value as WireRecord).id === 'string';
+}
+
+function mergeAcknowledgements(...lists: Array<string[] | undefined>): string[] {
+  return Array.from(new Set(lists.flatMap((list) => list ?? [])));
+}
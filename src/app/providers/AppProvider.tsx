@@ -3,6 +3,8 @@ import { Provider as ReduxProvider } from "react-redux";
 import { store } from "../store/store";
 import { offlineStore } from "../../lib/OfflineDataStore";
 import { syncEngine } from "../../lib/SyncEngine";
+import { deviceAuth } from "../../lib/deviceAuth";
+import { registerServiceWorker } from "../../lib/serviceWorker";
 
 function AppInitializer({ children }: { children: ReactNode }) {
   useEffect(() => {
@@ -10,13 +12,31 @@ function AppInitializer({ children }: { children: ReactNode }) {
     const initializeApp = async () => {
       try {
         console.log('[POS] Initializing offline store...');
-        await offlineStore.init();
+        await offlineStore.init({
+          onMigrationProgress: ({ version, description, step, totalSteps }) => {
+            console.log(`[POS] Migrating to v${version} (${description}): step ${step}/${totalSteps}`);
+          },
+        });
         console.log('[POS] Offline store initialized successfully');
 
-        // Start auto-sync (every 30 seconds)
+        // Sync waits for enrollment; the alert banner asks for a code until then
+        const authStatus = await deviceAuth.ready();
+        console.log(`[POS] Device ${authStatus}`);
+
+        // Offline app shell and Background Sync; production builds only
+        if (import.meta.env.PROD) {
+          registerServiceWorker({
+            hasQueuedWrites: async () => (await offlineStore.getQueuedWrites()).length > 0,
+          }).catch((error) => console.error('[POS] Service worker registration failed:', error));
+        }
+
+        // Start auto-sync (each entity on its own policy interval)
         console.log('[POS] Starting auto-sync...');
-        syncEngine.startAutoSync(30000);
+        syncEngine.startAutoSync();
         console.log('[POS] Auto-sync started');
+
+        // Push server changes straight to this device; polls faster while disconnected
+        syncEngine.startRealtime();
       } catch (error) {
         console.error('[POS] Failed to initialize app:', error);
       }
@@ -26,6 +46,7 @@ function AppInitializer({ children }: { children: ReactNode }) {
 
     // Cleanup on unmount
     return () => {
+      syncEngine.stopRealtime();
       syncEngine.stopAutoSync();
     };
   }, []);
@@ -6,6 +6,9 @@ import MainLayout from "../../layouts/MainLayout";
 import NotFound from "../../pages/notFound/NotFound";
 import CartPage from "../../pages/cart/CartPage";
 import OrderStatus from "../../features/orders/OrderStatus";
+import ConflictsPage from "../../pages/sync/ConflictsPage";
+import DiagnosticsPage from "../../pages/sync/DiagnosticsPage";
+import DevicePage from "../../pages/device/DevicePage";
 
 // const HomePage = lazy(() => import("@/pages/"));
 // const ProductsPage = lazy(() => import("@/pages/Products/ProductsPage"));
@@ -22,6 +25,9 @@ export default function AppRoutes() {
 //         { path: "/products", element: <ProductsPage /> },
         { path: "/cart", element: <CartPage /> },
         { path: "/orders", element: <OrderStatus /> },
+        { path: "/sync/conflicts", element: <ConflictsPage /> },
+        { path: "/sync/diagnostics", element: <DiagnosticsPage /> },
+        { path: "/device", element: <DevicePage /> },
  { path: "*", element: <NotFound /> }
       ],
     },
@@ -44,6 +44,10 @@ const cartSlice = createSlice({
         existing.quantity -= 1;
       }
     },
+
+    clearCart: (state) => {
+      state.items = [];
+    },
   },
 });
 
@@ -51,7 +55,8 @@ export const {
   addToCart, 
   removeFromCart, 
   increaseQuantity, // Export the new actions
-  decreaseQuantity  // Export the new actions
+  decreaseQuantity, // Export the new actions
+  clearCart,
 } = cartSlice.actions;
 
 export default cartSlice.reducer;
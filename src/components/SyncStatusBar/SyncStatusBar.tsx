@@ -3,31 +3,47 @@
  * Displays real-time synchronization status and offline indicators
  */
 
+import { useState } from 'react';
 import { useSyncEngine } from '../../hooks/useSyncEngine';
+import type { SyncState } from '../../lib/SyncEngine';
 import { useOnlineStatus } from '../../hooks/useOfflineStore';
+import { useTabLeadership } from '../../hooks/useTabCoordinator';
 import styles from './SyncStatusBar.module.scss';
 
 export function SyncStatusBar() {
-  const { syncStates, stats, sync } = useSyncEngine();
+  const { syncStates, stats, progress, sync } = useSyncEngine();
   const isOnline = useOnlineStatus();
+  const { isLeader, leaderId } = useTabLeadership();
+  const [showDetails, setShowDetails] = useState(false);
+
+  // Live from the sync state, which every tab receives
+  const syncInProgress = progress.syncing.length > 0;
+  const totalPending = Array.from(syncStates.values()).reduce(
+    (sum, state) => sum + state.itemsPending,
+    0
+  );
 
   const handleSyncClick = () => {
-    if (isOnline && !stats.syncInProgress) {
+    if (isOnline && !syncInProgress) {
       sync({ fullSync: false });
     }
   };
 
   const getStatusColor = () => {
     if (!isOnline) return 'offline';
-    if (stats.syncInProgress) return 'syncing';
-    if (stats.totalPending > 0) return 'pending';
+    if (syncInProgress) return 'syncing';
+    if (totalPending > 0) return 'pending';
     return 'synced';
   };
 
   const getStatusText = () => {
     if (!isOnline) return 'Offline';
-    if (stats.syncInProgress) return 'Syncing...';
-    if (stats.totalPending > 0) return `${stats.totalPending} pending`;
+    if (syncInProgress) {
+      if (progress.itemsTotal === null) return `Syncing... ${progress.itemsSynced} items`;
+      const eta = progress.eta !== null && progress.eta > 0 ? `, ${formatDuration(progress.eta)} left` : '';
+      return `Syncing... ${progress.progress}%${eta}`;
+    }
+    if (totalPending > 0) return `${totalPending} pending`;
     return 'All synced';
   };
 
@@ -40,17 +56,36 @@ export function SyncStatusBar() {
         <span className={styles.text}>{getStatusText()}</span>
       </div>
 
+      <span
+        className={`${styles.tabRole} ${isLeader ? styles.leader : ''}`}
+        title={
+          isLeader
+            ? 'This tab syncs and prints for all open tabs'
+            : `Tab ${leaderId?.slice(0, 8) ?? '(electing)'} syncs and prints for this one`
+        }
+      >
+        {isLeader ? 'Leader tab' : 'Follower tab'}
+      </span>
+
       {stats.lastSync && (
         <span className={styles.lastSync}>
           Last sync: {formatRelativeTime(stats.lastSync)}
         </span>
       )}
 
-      {isOnline && !stats.syncInProgress && (
+      <button
+        className={styles.detailsButton}
+        onClick={() => setShowDetails(!showDetails)}
+        aria-expanded={showDetails}
+      >
+        Details
+      </button>
+
+      {isOnline && !syncInProgress && (
         <button
           className={styles.syncButton}
           onClick={handleSyncClick}
-          disabled={stats.syncInProgress}
+          disabled={syncInProgress}
         >
           <svg width="16" height="16" viewBox="0 0 16 16" fill="currentColor">
             <path d="M13.65 2.35a7.5 7.5 0 1 0 0 11.3l1.06-1.06a9 9 0 1 1 0-9.18l-1.06-1.06z" />
@@ -59,17 +94,34 @@ export function SyncStatusBar() {
         </button>
       )}
 
-      {stats.syncInProgress && (
+      {showDetails && (
         <div className={styles.progressContainer}>
           {Array.from(syncStates.entries()).map(([entity, state]) => (
             <div key={entity} className={styles.entityProgress}>
-              <span className={styles.entityName}>{entity}</span>
+              <div className={styles.entityHeader}>
+                <span className={styles.entityName}>{entity}</span>
+                <span className={styles.entityStatus}>{describeEntity(state)}</span>
+              </div>
               <div className={styles.progressBar}>
                 <div
-                  className={styles.progressFill}
+                  className={`${styles.progressFill} ${
+                    state.status === 'syncing' && state.itemsTotal === null ? styles.indeterminate : ''
+                  }`}
                   style={{ width: `${state.progress}%` }}
                 />
               </div>
+              <div className={styles.entityStats}>
+                <span>{state.itemsPending} pending</span>
+                {state.bytesTransferred > 0 && (
+                  <span>
+                    {formatBytes(state.bytesTransferred)} at {formatBytes(state.throughput)}/s
+                  </span>
+                )}
+                {state.lastSync && <span>Last sync {formatRelativeTime(state.lastSync)}</span>}
+              </div>
+              {state.status === 'error' && state.lastError && (
+                <div className={styles.entityError}>{state.lastError}</div>
+              )}
             </div>
           ))}
         </div>
@@ -78,6 +130,38 @@ export function SyncStatusBar() {
   );
 }
 
+function describeEntity(state: SyncState): string {
+  switch (state.status) {
+    case 'syncing': {
+      const items =
+        state.itemsTotal === null
+          ? `${state.itemsSynced} items`
+          : `${state.itemsSynced} / ${state.itemsTotal} items`;
+      return state.eta ? `${items}, ${formatDuration(state.eta)} left` : items;
+    }
+    case 'success':
+      return 'Up to date';
+    case 'error':
+      return 'Failed';
+    default:
+      return 'Idle';
+  }
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function formatDuration(ms: number): string {
+  const seconds = Math.ceil(ms / 1000);
+
+  if (seconds < 60) return `${seconds}s`;
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+  return `${Math.floor(seconds / 3600)}h ${Math.floor((seconds % 3600) / 60)}m`;
+}
+
 function formatRelativeTime(timestamp: number): string {
   const seconds = Math.floor((Date.now() - timestamp) / 1000);
 
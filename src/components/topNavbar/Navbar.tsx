@@ -43,6 +43,9 @@ const Navbar = () => {
           </NavLink>
         </li>
         <li><NavLink to="/orders" className={styles.navLink}>Orders</NavLink></li>
+        <li><NavLink to="/sync/conflicts" className={styles.navLink}>Conflicts</NavLink></li>
+        <li><NavLink to="/sync/diagnostics" className={styles.navLink}>Diagnostics</NavLink></li>
+        <li><NavLink to="/device" className={styles.navLink}>Device</NavLink></li>
       </ul>
     </nav>
   );
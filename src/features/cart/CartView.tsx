@@ -5,9 +5,11 @@ import {
   removeFromCart,
   increaseQuantity,
   decreaseQuantity,
+  clearCart,
 } from "../../app/store/slices/cartSlice";
 import { addOrder } from "../orders/ordersSlice";
-import { offlineStore } from "../../lib/OfflineDataStore";
+import { placeOrder } from "../orders/placeOrder";
+import { printManager } from "../../lib/PrintJobManager";
 import styles from "./CartView.module.scss";
 import { Button } from "../../components/atoms";
 
@@ -42,14 +44,13 @@ const CartView = () => {
     };
 
     try {
-      // Save to IndexedDB (offline storage)
-      await offlineStore.put('orders', order.id, order);
+      // Save order, inventory and sync queue atomically (offline storage)
+      const hasKitchenPrinter = printManager.getPrintersByDestination('kitchen').length > 0;
+      await placeOrder(order, { printTo: hasKitchenPrinter ? 'kitchen' : undefined });
 
-      // Also add to Redux for immediate UI update
+      // Update Redux only once the order has been committed
       dispatch(addOrder(order));
-
-      // Clear cart
-      items.forEach((i) => dispatch(removeFromCart(i.id)));
+      dispatch(clearCart());
 
       // Show success message
       alert("Order placed successfully! Saved to offline storage.");
@@ -0,0 +1,28 @@
+import { Link, useLocation } from "react-router-dom";
+import { useDeviceAuth } from "../../hooks/useDeviceAuth";
+import styles from "./DeviceAuthAlert.module.scss";
+
+// Sync has stopped for this device; say so on every screen but the one that fixes it
+const DeviceAuthAlert = () => {
+  const { status } = useDeviceAuth();
+  const location = useLocation();
+
+  if (location.pathname === "/device" || (status !== "revoked" && status !== "unenrolled")) {
+    return null;
+  }
+
+  return (
+    <div className={`${styles.alert} ${status === "revoked" ? styles.revoked : ""}`} role="alert">
+      <span>
+        {status === "revoked"
+          ? "This device has been revoked. Sync has stopped; sales stay queued on this device."
+          : "This device is not enrolled, so nothing syncs with the server."}
+      </span>
+      <Link to="/device" className={styles.action}>
+        {status === "revoked" ? "Enroll again" : "Enroll device"}
+      </Link>
+    </div>
+  );
+};
+
+export default DeviceAuthAlert;
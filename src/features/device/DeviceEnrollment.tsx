@@ -0,0 +1,86 @@
+import { useState, type FormEvent } from "react";
+import { useDeviceAuth } from "../../hooks/useDeviceAuth";
+import styles from "./DeviceEnrollment.module.scss";
+
+const DeviceEnrollment = () => {
+  const { status, device, enroll } = useDeviceAuth();
+  const [code, setCode] = useState("");
+  const [name, setName] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [enrolling, setEnrolling] = useState(false);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setEnrolling(true);
+      setError(null);
+      await enroll(code, name.trim() || undefined);
+      setCode("");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setEnrolling(false);
+    }
+  };
+
+  if (status === "loading") {
+    return <p className={styles.emptyState}>Loading...</p>;
+  }
+
+  return (
+    <div className={styles.container}>
+      <h2>Device</h2>
+
+      {status === "enrolled" && device && (
+        <div className={styles.card}>
+          <div className={styles.row}>
+            <span className={styles.label}>Location</span>
+            <span>{device.locationId}</span>
+          </div>
+          <div className={styles.row}>
+            <span className={styles.label}>Device ID</span>
+            <span className={styles.mono}>{device.deviceId}</span>
+          </div>
+          <p className={styles.hint}>This device is enrolled and syncs with the server.</p>
+        </div>
+      )}
+
+      {status === "revoked" && (
+        <div className={styles.revoked} role="alert">
+          This device has been revoked, so sync has stopped. Sales made on it stay queued here. Ask the back
+          office for a new enrollment code to pair it again.
+        </div>
+      )}
+
+      <form className={styles.card} onSubmit={handleSubmit}>
+        <h3>{status === "enrolled" ? "Move to another location" : "Enroll this device"}</h3>
+        <p className={styles.hint}>Enter the one-time code issued for your location.</p>
+
+        <label className={styles.field}>
+          Enrollment code
+          <input
+            value={code}
+            onChange={(e) => setCode(e.target.value.toUpperCase())}
+            placeholder="K7QM2XPA"
+            autoComplete="off"
+            required
+          />
+        </label>
+
+        <label className={styles.field}>
+          Device name (optional)
+          <input value={name} onChange={(e) => setName(e.target.value)} placeholder="Till 3" />
+        </label>
+
+        {error && <div className={styles.error}>{error}</div>}
+
+        <button type="submit" className={styles.primaryButton} disabled={enrolling || !code.trim()}>
+          {enrolling ? "Enrolling..." : "Enroll"}
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default DeviceEnrollment;
@@ -0,0 +1,50 @@
+import { offlineStore } from "../../lib/OfflineDataStore";
+import type { UnitOfWork } from "../../lib/UnitOfWork";
+import type { InventoryRecord } from "../../lib/collections";
+import { adjustCounter, counterValue, createCounter } from "../../lib/pnCounter";
+
+export type StockMovement = "sale" | "restock" | "waste";
+
+/**
+ * Current stock for a product, or null when its inventory is not tracked
+ */
+export async function getQuantity(productId: number): Promise<number | null> {
+  const record = await offlineStore.collection("inventory").get(productId.toString());
+  return record ? counterValue(record.data.counter) : null;
+}
+
+/**
+ * Add a stock movement to a unit of work. Sales and waste only apply to
+ * tracked products; a restock starts tracking an untracked one.
+ */
+export function recordStockMovement(
+  unitOfWork: UnitOfWork,
+  productId: number,
+  movement: StockMovement,
+  quantity: number
+): UnitOfWork {
+  if (!(quantity > 0)) throw new Error(`Invalid ${movement} quantity: ${quantity}`);
+
+  const deviceId = offlineStore.getDeviceId();
+  const amount = movement === "restock" ? quantity : -quantity;
+
+  return unitOfWork.update("inventory", productId.toString(), (current) => {
+    if (!current && movement !== "restock") return undefined;
+
+    const record: InventoryRecord = current ?? { productId, counter: createCounter(), quantity: 0 };
+    const counter = adjustCounter(record.counter, deviceId, amount);
+    return { ...record, counter, quantity: counterValue(counter) };
+  });
+}
+
+export function recordSale(productId: number, quantity: number): Promise<void> {
+  return recordStockMovement(offlineStore.unitOfWork(), productId, "sale", quantity).commit();
+}
+
+export function recordRestock(productId: number, quantity: number): Promise<void> {
+  return recordStockMovement(offlineStore.unitOfWork(), productId, "restock", quantity).commit();
+}
+
+export function recordWaste(productId: number, quantity: number): Promise<void> {
+  return recordStockMovement(offlineStore.unitOfWork(), productId, "waste", quantity).commit();
+}
@@ -1,15 +1,19 @@
 import { useEffect, useState } from "react";
 import { useSelector, useDispatch } from "react-redux";
 import type { RootState } from "../../app/store/store";
-import { updateOrderStatus, setOrders } from "./ordersSlice";
-import { offlineStore } from "../../lib/OfflineDataStore";
-import type { Order, OrderStatus as OrderStatusType } from "./ordersSlice";
+import { updateOrderStatus, setOrders, appendOrders } from "./ordersSlice";
+import { offlineStore, type PageCursor } from "../../lib/OfflineDataStore";
+import type { OrderStatus as OrderStatusType } from "./ordersSlice";
 import styles from "./OrderStatus.module.scss";
 
+const ORDERS_PAGE_SIZE = 50;
+
 const OrderStatus = () => {
   const dispatch = useDispatch();
   const { list } = useSelector((state: RootState) => state.orders);
   const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [nextCursor, setNextCursor] = useState<PageCursor | null>(null);
 
   // Load orders from IndexedDB on mount
   useEffect(() => {
@@ -18,12 +22,17 @@ const OrderStatus = () => {
         setLoading(true);
         await offlineStore.init();
 
-        // Query all orders from IndexedDB
-        const ordersFromDB = await offlineStore.query<Order>('orders');
+        // Load the most recent page of orders from IndexedDB
+        const page = await offlineStore.collection('orders').page({
+          index: 'createdAt',
+          direction: 'prev',
+          limit: ORDERS_PAGE_SIZE,
+        });
 
         // Extract order data and set in Redux (replaces existing orders to avoid duplicates)
-        const orders = ordersFromDB.map(item => item.data);
+        const orders = page.items.map(item => item.data);
         dispatch(setOrders(orders));
+        setNextCursor(page.nextCursor);
 
         setLoading(false);
       } catch (error) {
@@ -35,6 +44,27 @@ const OrderStatus = () => {
     loadOrdersFromDB();
   }, [dispatch]);
 
+  const handleLoadMore = async () => {
+    if (!nextCursor) return;
+
+    try {
+      setLoadingMore(true);
+      const page = await offlineStore.collection('orders').page({
+        index: 'createdAt',
+        direction: 'prev',
+        limit: ORDERS_PAGE_SIZE,
+        after: nextCursor,
+      });
+
+      dispatch(appendOrders(page.items.map(item => item.data)));
+      setNextCursor(page.nextCursor);
+    } catch (error) {
+      console.error("Failed to load more orders from IndexedDB:", error);
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
   const handleNext = async (id: string, current: OrderStatusType) => {
     const flow: OrderStatusType[] = ["pending", "preparing", "ready", "completed"];
     const currentIndex = flow.indexOf(current);
@@ -46,9 +76,10 @@ const OrderStatus = () => {
 
       // Update in IndexedDB
       try {
-        const orderData = await offlineStore.get<Order>('orders', id);
+        const orders = offlineStore.collection('orders');
+        const orderData = await orders.get(id);
         if (orderData) {
-          await offlineStore.put('orders', id, {
+          await orders.put(id, {
             ...orderData.data,
             status: next,
           });
@@ -156,6 +187,17 @@ const OrderStatus = () => {
           ))}
         </div>
       )}
+      {nextCursor && (
+        <div className={styles.loadMore}>
+          <button
+            className={styles.nextButton}
+            onClick={handleLoadMore}
+            disabled={loadingMore}
+          >
+            {loadingMore ? "Loading..." : "Load older orders"}
+          </button>
+        </div>
+      )}
     </div>
   );
 };
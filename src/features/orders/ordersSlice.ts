@@ -40,6 +40,11 @@ const ordersSlice = createSlice({
       // Replace all orders (used when loading from IndexedDB)
       state.list = action.payload;
     },
+    appendOrders: (state, action: PayloadAction<Order[]>) => {
+      // Append a further page from IndexedDB, skipping orders already loaded
+      const loaded = new Set(state.list.map(o => o.id));
+      state.list.push(...action.payload.filter(o => !loaded.has(o.id)));
+    },
     updateOrderStatus: (state, action: PayloadAction<{ id: string; status: OrderStatus }>) => {
       const order = state.list.find(o => o.id === action.payload.id);
       if (order) order.status = action.payload.status;
@@ -47,5 +52,5 @@ const ordersSlice = createSlice({
   },
 });
 
-export const { addOrder, setOrders, updateOrderStatus } = ordersSlice.actions;
+export const { addOrder, setOrders, appendOrders, updateOrderStatus } = ordersSlice.actions;
 export default ordersSlice.reducer;
@@ -0,0 +1,40 @@
+import { offlineStore } from "../../lib/OfflineDataStore";
+import { recordStockMovement } from "../inventory/inventory";
+import { printManager, type PrintDestination } from "../../lib/PrintJobManager";
+import type { Order } from "./ordersSlice";
+
+export interface PlaceOrderOptions {
+  printTo?: PrintDestination; // Also persist a print ticket in the same transaction
+}
+
+/**
+ * Atomically save the order, decrement inventory and enqueue the sync
+ * operations (plus an optional print job). Nothing is written if any step fails.
+ */
+export async function placeOrder(order: Order, options: PlaceOrderOptions = {}): Promise<void> {
+  const unitOfWork = offlineStore.unitOfWork().put("orders", order.id, order);
+
+  // Only products with a tracked inventory record are decremented
+  order.items.forEach((item) => {
+    recordStockMovement(unitOfWork, item.id, "sale", item.quantity);
+  });
+
+  const printJob = options.printTo
+    ? printManager.createJob(options.printTo, "order", {
+        orderId: order.id,
+        items: order.items,
+        timestamp: new Date(order.createdAt).toLocaleString(),
+      })
+    : null;
+
+  if (printJob) {
+    // Print jobs are local to the device and never synced
+    unitOfWork.put("printJobs", printJob.id, printJob);
+  }
+
+  await unitOfWork.commit();
+
+  if (printJob) {
+    printManager.schedule(printJob);
+  }
+}
@@ -0,0 +1,251 @@
+import { useCallback, useEffect, useState } from "react";
+import {
+  offlineStore,
+  type ConflictEntry,
+  type DeadLetter,
+  type SyncConflict,
+} from "../../lib/OfflineDataStore";
+import { isEqual, threeWayMerge } from "../../lib/conflictResolvers";
+import styles from "./ConflictReview.module.scss";
+
+type FieldChoice = "local" | "remote" | "merged";
+type Fields = Record<string, unknown>;
+
+interface FieldRow {
+  field: string;
+  local: unknown;
+  remote: unknown;
+  merged?: unknown; // Only when a base version is known
+  differs: boolean;
+  clash: boolean; // Both sides changed the field
+}
+
+const asFields = (data: unknown): Fields =>
+  typeof data === "object" && data !== null ? (data as Fields) : { value: data };
+
+const formatValue = (value: unknown): string =>
+  value === undefined ? "—" : typeof value === "string" ? value : JSON.stringify(value);
+
+const buildRows = (conflict: SyncConflict): FieldRow[] => {
+  const local = asFields(conflict.localVersion.data);
+  const remote = asFields(conflict.remoteVersion.data);
+  const merge = conflict.base !== undefined ? threeWayMerge(asFields(conflict.base), local, remote) : null;
+  const fields = Array.from(new Set([...Object.keys(local), ...Object.keys(remote)]));
+
+  return fields.map((field) => ({
+    field,
+    local: local[field],
+    remote: remote[field],
+    merged: merge?.data[field],
+    differs: !isEqual(local[field], remote[field]),
+    clash: merge ? merge.conflicts.includes(field) : true,
+  }));
+};
+
+const defaultChoice = (row: FieldRow): FieldChoice => (row.clash ? "local" : "merged");
+
+const ConflictCard = ({ conflict }: { conflict: SyncConflict }) => {
+  const rows = buildRows(conflict);
+  const [choices, setChoices] = useState<Record<string, FieldChoice>>({});
+  const [saving, setSaving] = useState(false);
+
+  const choiceFor = (row: FieldRow) => choices[row.field] ?? defaultChoice(row);
+
+  const handleResolve = async () => {
+    const data: Fields = {};
+    rows.forEach((row) => {
+      const value = row[choiceFor(row)];
+      if (value !== undefined) data[row.field] = value;
+    });
+
+    try {
+      setSaving(true);
+      await offlineStore.resolveManualConflict(conflict.id, data);
+    } catch (error) {
+      console.error("Failed to resolve conflict:", error);
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className={styles.card}>
+      <div className={styles.cardHeader}>
+        <div>
+          <div className={styles.title}>
+            {conflict.store} / {conflict.entityId}
+          </div>
+          <div className={styles.meta}>
+            Detected {new Date(conflict.detectedAt).toLocaleString()} · local v
+            {conflict.localVersion.version} ({conflict.localVersion.deviceId.slice(0, 8)}) vs remote v
+            {conflict.remoteVersion.version} ({conflict.remoteVersion.deviceId.slice(0, 8)})
+          </div>
+        </div>
+        <span className={`${styles.badge} ${styles.conflict}`}>conflict</span>
+      </div>
+
+      <table className={styles.diff}>
+        <thead>
+          <tr>
+            <th>Field</th>
+            <th>Local</th>
+            <th>Remote</th>
+            <th>Keep</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row) => (
+            <tr key={row.field} className={row.differs ? styles.changed : undefined}>
+              <td className={styles.field}>{row.field}</td>
+              <td className={choiceFor(row) === "local" ? styles.picked : undefined}>
+                <code>{formatValue(row.local)}</code>
+              </td>
+              <td className={choiceFor(row) === "remote" ? styles.picked : undefined}>
+                <code>{formatValue(row.remote)}</code>
+              </td>
+              <td className={styles.choices}>
+                {row.differs ? (
+                  (["local", "remote", "merged"] as const).map((choice) => (
+                    <label key={choice}>
+                      <input
+                        type="radio"
+                        name={`${conflict.id}-${row.field}`}
+                        checked={choiceFor(row) === choice}
+                        disabled={choice === "merged" && row.clash}
+                        onChange={() => setChoices({ ...choices, [row.field]: choice })}
+                      />
+                      {choice}
+                    </label>
+                  ))
+                ) : (
+                  <span className={styles.same}>same</span>
+                )}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <div className={styles.cardActions}>
+        <button className={styles.primaryButton} onClick={handleResolve} disabled={saving}>
+          {saving ? "Saving..." : "Apply resolution"}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+const DeadLetterCard = ({ entry }: { entry: DeadLetter }) => {
+  const [busy, setBusy] = useState(false);
+
+  const run = async (action: (id: string) => Promise<void>) => {
+    try {
+      setBusy(true);
+      await action(entry.id);
+    } catch (error) {
+      console.error("Failed to update dead letter:", error);
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className={styles.card}>
+      <div className={styles.cardHeader}>
+        <div>
+          <div className={styles.title}>
+            {entry.operation.toUpperCase()} {entry.store} / {entry.data?.id}
+          </div>
+          <div className={styles.meta}>
+            Failed after {entry.retryCount} attempts
+            {entry.failedAt && ` · ${new Date(entry.failedAt).toLocaleString()}`}
+          </div>
+        </div>
+        <span className={`${styles.badge} ${styles.deadLetter}`}>failed write</span>
+      </div>
+
+      <div className={styles.error}>{entry.error}</div>
+      <pre className={styles.payload}>{JSON.stringify(entry.data, null, 2)}</pre>
+
+      <div className={styles.cardActions}>
+        <button
+          className={styles.primaryButton}
+          onClick={() => run((id) => offlineStore.retryDeadLetter(id))}
+          disabled={busy}
+        >
+          Retry
+        </button>
+        <button
+          className={styles.dangerButton}
+          onClick={() => run((id) => offlineStore.discardDeadLetter(id))}
+          disabled={busy}
+        >
+          Discard
+        </button>
+      </div>
+    </div>
+  );
+};
+
+const ConflictReview = () => {
+  const [entries, setEntries] = useState<ConflictEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const loadEntries = useCallback(async () => {
+    try {
+      await offlineStore.init();
+      setEntries(await offlineStore.listConflicts());
+    } catch (error) {
+      console.error("Failed to load conflicts:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadEntries();
+    return offlineStore.subscribe("conflicts", loadEntries);
+  }, [loadEntries]);
+
+  if (loading) {
+    return (
+      <div className={styles.container}>
+        <h2>Sync Conflicts</h2>
+        <p className={styles.emptyState}>Loading...</p>
+      </div>
+    );
+  }
+
+  const conflicts = entries.filter((entry): entry is SyncConflict => entry.kind === "conflict");
+  const deadLetters = entries.filter((entry): entry is DeadLetter => entry.kind === "dead-letter");
+
+  return (
+    <div className={styles.container}>
+      <h2>Sync Conflicts ({entries.length})</h2>
+      {entries.length === 0 && (
+        <div className={styles.emptyState}>
+          <p>Nothing needs attention</p>
+          <p>Concurrent edits that cannot be merged and writes that keep failing show up here.</p>
+        </div>
+      )}
+
+      {conflicts.length > 0 && (
+        <section className={styles.section}>
+          <h3>Concurrent edits</h3>
+          {conflicts.map((conflict) => (
+            <ConflictCard key={conflict.id} conflict={conflict} />
+          ))}
+        </section>
+      )}
+
+      {deadLetters.length > 0 && (
+        <section className={styles.section}>
+          <h3>Failed writes</h3>
+          {deadLetters.map((entry) => (
+            <DeadLetterCard key={entry.id} entry={entry} />
+          ))}
+        </section>
+      )}
+    </div>
+  );
+};
+
+export default ConflictReview;
@@ -0,0 +1,171 @@
+import { useCallback, useEffect, useState } from "react";
+import { offlineStore } from "../../lib/OfflineDataStore";
+import { syncEngine } from "../../lib/SyncEngine";
+import type { SyncLogEntry, SyncLogEvent, SyncLogQuery } from "../../lib/syncLog";
+import styles from "./SyncDiagnostics.module.scss";
+
+const EVENTS: SyncLogEvent[] = ["push", "pull", "realtime", "conflict", "retry", "dead-letter", "cancel", "error"];
+const ENTITIES = ["products", "orders", "inventory"];
+const PAGE_SIZE = 200;
+
+const formatDuration = (ms?: number): string | null =>
+  ms === undefined ? null : ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+
+const downloadJson = (filename: string, value: unknown) => {
+  const blob = new Blob([JSON.stringify(value, null, 2)], { type: "application/json" });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const LogRow = ({ entry }: { entry: SyncLogEntry }) => {
+  const [expanded, setExpanded] = useState(false);
+  const duration = formatDuration(entry.durationMs);
+  const hiddenIds = (entry.count ?? 0) - (entry.ids?.length ?? 0);
+
+  return (
+    <li className={`${styles.entry} ${styles[entry.level]}`}>
+      <button className={styles.entryHeader} onClick={() => setExpanded(!expanded)}>
+        <span className={styles.time}>{new Date(entry.timestamp).toLocaleTimeString()}</span>
+        <span className={styles.event}>{entry.event}</span>
+        {entry.entity && <span className={styles.entity}>{entry.entity}</span>}
+        <span className={styles.message}>{entry.message}</span>
+        {entry.count !== undefined && <span className={styles.meta}>{entry.count} records</span>}
+        {duration && <span className={styles.meta}>{duration}</span>}
+      </button>
+
+      {expanded && (
+        <div className={styles.details}>
+          <div className={styles.meta}>{new Date(entry.timestamp).toLocaleString()}</div>
+          {entry.error && <div className={styles.error}>{entry.error}</div>}
+          {entry.ids && entry.ids.length > 0 && (
+            <div className={styles.ids}>
+              {entry.ids.join(", ")}
+              {hiddenIds > 0 && ` and ${hiddenIds} more`}
+            </div>
+          )}
+        </div>
+      )}
+    </li>
+  );
+};
+
+const SyncDiagnostics = () => {
+  const [entries, setEntries] = useState<SyncLogEntry[]>([]);
+  const [query, setQuery] = useState<SyncLogQuery>({});
+  const [loading, setLoading] = useState(true);
+  const [exporting, setExporting] = useState(false);
+
+  const loadEntries = useCallback(async () => {
+    try {
+      await offlineStore.init();
+      setEntries(await offlineStore.syncLog.list({ ...query, limit: PAGE_SIZE }));
+    } catch (error) {
+      console.error("Failed to load sync log:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [query]);
+
+  useEffect(() => {
+    loadEntries();
+    return offlineStore.subscribe("syncLog", loadEntries);
+  }, [loadEntries]);
+
+  const handleExport = async () => {
+    try {
+      setExporting(true);
+      const bundle = await syncEngine.exportDiagnostics();
+      const stamp = bundle.generatedAt.replace(/[:.]/g, "-");
+      downloadJson(`pos-sync-diagnostics-${stamp}.json`, bundle);
+    } catch (error) {
+      console.error("Failed to export diagnostics:", error);
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const handleClear = async () => {
+    if (!window.confirm("Clear the sync log on this device?")) return;
+
+    try {
+      await offlineStore.syncLog.clear();
+    } catch (error) {
+      console.error("Failed to clear sync log:", error);
+    }
+  };
+
+  const errorCount = entries.filter((entry) => entry.level === "error").length;
+
+  return (
+    <div className={styles.container}>
+      <div className={styles.header}>
+        <h2>Sync Diagnostics</h2>
+        <div className={styles.actions}>
+          <button className={styles.primaryButton} onClick={handleExport} disabled={exporting}>
+            {exporting ? "Exporting..." : "Export bundle"}
+          </button>
+          <button className={styles.secondaryButton} onClick={handleClear}>
+            Clear log
+          </button>
+        </div>
+      </div>
+
+      <div className={styles.filters}>
+        <select
+          value={query.event ?? ""}
+          onChange={(e) => setQuery({ ...query, event: (e.target.value || undefined) as SyncLogEvent | undefined })}
+        >
+          <option value="">All events</option>
+          {EVENTS.map((event) => (
+            <option key={event} value={event}>
+              {event}
+            </option>
+          ))}
+        </select>
+        <select
+          value={query.entity ?? ""}
+          onChange={(e) => setQuery({ ...query, entity: e.target.value || undefined })}
+        >
+          <option value="">All entities</option>
+          {ENTITIES.map((entity) => (
+            <option key={entity} value={entity}>
+              {entity}
+            </option>
+          ))}
+        </select>
+        <label>
+          <input
+            type="checkbox"
+            checked={query.level === "error"}
+            onChange={(e) => setQuery({ ...query, level: e.target.checked ? "error" : undefined })}
+          />
+          Errors only
+        </label>
+        <span className={styles.summary}>
+          {entries.length} entries{errorCount > 0 && `, ${errorCount} errors`}
+        </span>
+      </div>
+
+      {loading ? (
+        <p className={styles.emptyState}>Loading...</p>
+      ) : entries.length === 0 ? (
+        <div className={styles.emptyState}>
+          <p>No sync activity recorded</p>
+          <p>Pushes, pulls, conflicts, retries and failures show up here as they happen.</p>
+        </div>
+      ) : (
+        <ul className={styles.timeline}>
+          {entries.map((entry) => (
+            <LogRow key={entry.id} entry={entry} />
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default SyncDiagnostics;
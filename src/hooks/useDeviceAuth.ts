@@ -0,0 +1,32 @@
+/**
+ * React Hook for Device Authentication
+ * Tells whether this device may sync and enrolls it with a one-time code
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { deviceAuth } from '../lib/deviceAuth';
+
+export function useDeviceAuth() {
+  const [status, setStatus] = useState(deviceAuth.getStatus());
+  const [device, setDevice] = useState(deviceAuth.getDevice());
+
+  useEffect(() => {
+    const update = () => {
+      setStatus(deviceAuth.getStatus());
+      setDevice(deviceAuth.getDevice());
+    };
+
+    const unsubscribe = deviceAuth.subscribe(update);
+    deviceAuth.ready().then(update);
+
+    return unsubscribe;
+  }, []);
+
+  const enroll = useCallback(async (code: string, name?: string) => {
+    await deviceAuth.enroll(code, name);
+    // Enrolling again elsewhere keeps the status but moves the device
+    setDevice(deviceAuth.getDevice());
+  }, []);
+
+  return { status, device, enroll };
+}
@@ -3,9 +3,42 @@
  * Provides reactive access to synchronization status
  */
 
-import { useEffect, useState, useCallback } from 'react';
+import { useEffect, useState, useCallback, useMemo } from 'react';
 import { syncEngine, type SyncState, type EntityType, type SyncOptions } from '../lib/SyncEngine';
 
+// Totals over the entities that are syncing right now
+export interface SyncProgressSummary {
+  syncing: EntityType[];
+  itemsSynced: number;
+  itemsTotal: number | null;
+  bytesTransferred: number;
+  throughput: number; // Bytes per second
+  eta: number | null; // ms
+  progress: number; // 0-100
+}
+
+export function summarizeSyncProgress(states: Map<EntityType, SyncState>): SyncProgressSummary {
+  const active = Array.from(states.entries()).filter(([, state]) => state.status === 'syncing');
+  const totals = active.map(([, state]) => state.itemsTotal);
+  const etas = active.map(([, state]) => state.eta);
+
+  const itemsSynced = active.reduce((sum, [, state]) => sum + state.itemsSynced, 0);
+  const itemsTotal = totals.includes(null)
+    ? null
+    : totals.reduce<number>((sum, total) => sum + (total ?? 0), 0);
+
+  return {
+    syncing: active.map(([entity]) => entity),
+    itemsSynced,
+    itemsTotal,
+    bytesTransferred: active.reduce((sum, [, state]) => sum + state.bytesTransferred, 0),
+    throughput: active.reduce((sum, [, state]) => sum + state.throughput, 0),
+    // Entities sync side by side, so the slowest one decides
+    eta: etas.includes(null) ? null : Math.max(0, ...(etas as number[])),
+    progress: itemsTotal ? Math.min(99, Math.floor((itemsSynced / itemsTotal) * 100)) : 0,
+  };
+}
+
 export function useSyncEngine() {
   const [syncStates, setSyncStates] = useState<Map<EntityType, SyncState>>(
     syncEngine.getSyncState() as Map<EntityType, SyncState>
@@ -47,9 +80,12 @@ export function useSyncEngine() {
     syncEngine.stopAutoSync();
   }, []);
 
+  const progress = useMemo(() => summarizeSyncProgress(syncStates), [syncStates]);
+
   return {
     syncStates,
     stats,
+    progress,
     sync,
     cancelSync,
     startAutoSync,
@@ -0,0 +1,27 @@
+/**
+ * React Hook for Cross-Tab Coordination
+ * Tells whether this tab is the one that syncs and prints
+ */
+
+import { useEffect, useState } from 'react';
+import { tabCoordinator } from '../lib/tabCoordinator';
+
+export function useTabLeadership() {
+  const [isLeader, setIsLeader] = useState(tabCoordinator.isLeader());
+  const [leaderId, setLeaderId] = useState(tabCoordinator.getLeaderId());
+
+  useEffect(() => {
+    const unsubscribe = tabCoordinator.onLeadershipChange((leader) => {
+      setIsLeader(leader);
+      setLeaderId(tabCoordinator.getLeaderId());
+    });
+
+    // Leadership may have been settled between render and subscribing
+    setIsLeader(tabCoordinator.isLeader());
+    setLeaderId(tabCoordinator.getLeaderId());
+
+    return unsubscribe;
+  }, []);
+
+  return { isLeader, leaderId, tabId: tabCoordinator.tabId };
+}
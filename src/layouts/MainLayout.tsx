@@ -1,12 +1,14 @@
 import { Outlet } from "react-router-dom";
 import Navbar from "../components/topNavbar/Navbar";
 import { SyncStatusBar } from "../components/SyncStatusBar/SyncStatusBar";
+import DeviceAuthAlert from "../features/device/DeviceAuthAlert";
 
 export default function MainLayout() {
   return (
     <div style={{ overflowX: "hidden", width: "100%" }}>
       <Navbar />
       <SyncStatusBar />
+      <DeviceAuthAlert />
       <div style={{ maxWidth: "1250px", margin: "auto", padding: "20px", overflowX: "hidden" }}>
         <Outlet />
       </div>
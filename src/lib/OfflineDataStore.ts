@@ -8,6 +8,60 @@
  * 4. Maintains referential integrity
  */
 
+import {
+  META_STORE,
+  isSchemaCurrent,
+  upgradeSchema,
+  type MigrationProgressCallback,
+  type StoreDefinition,
+} from './migrations';
+
+import {
+  Collection,
+  isCollectionName,
+  validateRecord,
+  type CollectionName,
+  type StoreTypeMap,
+} from './collections';
+import { UnitOfWork, type UnitOfWorkOperation } from './UnitOfWork';
+import {
+  fieldMerge,
+  lastWriteWins,
+  remoteWins,
+  type ConflictResolution,
+  type ConflictResolver,
+} from './conflictResolvers';
+import { counterMerge } from './pnCounter';
+import {
+  AuthenticationError,
+  HttpTransport,
+  TransportError,
+  type SyncTransport,
+} from './httpTransport';
+import {
+  browserNetwork,
+  indexedDBAdapter,
+  systemClock,
+  type Clock,
+  type NetworkMonitor,
+  type StorageAdapter,
+  type TimerHandle,
+} from './storage';
+import { withSyncLock } from './syncLock';
+import { SYNC_LOG_STORE, SyncLog } from './syncLog';
+import { singleTab, tabCoordinator, type TabCoordinator } from './tabCoordinator';
+import {
+  compareClocks,
+  concurrent,
+  happenedBefore,
+  increment,
+  mergeClocks,
+  type VectorClock,
+} from './vectorClock';
+import { fromWireFormat, toWireFormat, type WireRecord } from './wireFormat';
+
+export type { StoreDefinition } from './migrations';
+
 // Types
 export interface DataItem<T = any> {
   id: string;
@@ -15,8 +69,12 @@ export interface DataItem<T = any> {
   version: number;
   deviceId: string;
   timestamp: number;
-  vectorClock: Record<string, number>;
+  vectorClock: VectorClock;
   syncStatus: 'pending' | 'synced' | 'conflict';
+  deletedAt?: number; // Set on tombstones left behind by deletes
+  acknowledgedBy?: string[]; // Peers (and 'server') known to have seen the tombstone
+  base?: T; // Last synced data, the common ancestor for three-way merges
+  serverVersion?: number; // Version the server assigned to the last copy it stored
 }
 
 export interface WriteOperation {
@@ -26,79 +84,279 @@ export interface WriteOperation {
   data?: any;
   timestamp: number;
   retryCount: number;
+  idempotencyKey: string; // Sent with every attempt so the server can drop duplicates
+  sequence: number; // Enqueue order; writes to the same record are sent in this order
+  nextAttemptAt: number; // Not sent before this time
+  lastAttemptAt?: number; // Set once an attempt has failed; such writes are never coalesced
+}
+
+/**
+ * Concurrent edit parked in the `conflicts` store for manual resolution
+ */
+export interface SyncConflict<T = unknown> {
+  kind: 'conflict';
+  id: string;
+  store: string;
+  entityId: string;
+  localVersion: DataItem<T>;
+  remoteVersion: DataItem<T>;
+  base?: T;
+  resolution: 'manual';
+  resolvedVersion?: DataItem<T>;
+  detectedAt: number;
+}
+
+/**
+ * Queued write that exhausted its retries, kept in the `conflicts` store
+ */
+export interface DeadLetter extends WriteOperation {
+  kind: 'dead-letter';
+  error: string;
+  failedAt?: number;
+}
+
+export type ConflictEntry = SyncConflict | DeadLetter;
+
+export interface PageCursor {
+  key: IDBValidKey;
+  primaryKey: IDBValidKey;
+}
+
+export interface QueryOptions {
+  index?: string;
+  range?: IDBValidKey | IDBKeyRange;
+  direction?: IDBCursorDirection;
+  limit?: number;
+  after?: PageCursor | null; // Resume after this position (exclusive)
+  includeDeleted?: boolean; // Also return tombstones
 }
 
-export interface SyncConflict {
-  localVersion: DataItem;
-  remoteVersion: DataItem;
-  resolvedVersion?: DataItem;
+export interface GetOptions {
+  includeDeleted?: boolean;
+}
+
+export interface IterateOptions extends Omit<QueryOptions, 'limit'> {
+  pageSize?: number;
+}
+
+export interface Page<T> {
+  items: DataItem<T>[];
+  nextCursor: PageCursor | null;
+}
+
+export interface RemoteMergeResult<T = unknown> {
+  outcome: 'inserted' | 'fast-forward' | 'local-newer' | 'resolved' | 'manual';
+  item: DataItem<T>;
+  conflict?: SyncConflict<T>; // Set when the pair was parked for manual resolution
+}
+
+export interface InitOptions {
+  onMigrationProgress?: MigrationProgressCallback;
+}
+
+export interface OfflineDataStoreOptions {
+  adapter?: StorageAdapter; // Default: browser IndexedDB
+  clock?: Clock;
+  network?: NetworkMonitor;
+  transport?: SyncTransport; // Default: HTTP against `/api/v1`
+  deviceId?: string; // Default: persisted in localStorage when available
+  coordinator?: TabCoordinator; // Default: a lone tab that always leads
+}
+
+// A notification relayed from another tab
+interface StoreChange {
+  store: string;
+  data: unknown;
 }
 
 // Configuration
-const DB_NAME = 'pos-offline-store';
-const DB_VERSION = 1;
-const STORES = ['products', 'orders', 'inventory', 'syncQueue', 'conflicts'];
+const DEFAULT_PAGE_SIZE = 50;
+const PEERS_KEY = 'peers';
+const DEVICE_KEY = 'device';
+const SERVER_PEER = 'server';
 const MAX_RETRY_ATTEMPTS = 5;
 const INITIAL_RETRY_DELAY = 1000; // 1 second
 const MAX_RETRY_DELAY = 32000; // 32 seconds
+const STORE_CHANGED_TOPIC = 'store:changed';
+const FLUSH_QUEUE_TOPIC = 'store:flush-queue';
 
 export class OfflineDataStore {
   private db: IDBDatabase | null = null;
   private deviceId: string;
-  private isOnline: boolean = navigator.onLine;
+  private deviceIdGiven: boolean;
+  private adapter: StorageAdapter;
+  private clock: Clock;
+  private network: NetworkMonitor;
+  private transport: SyncTransport;
+  private coordinator: TabCoordinator;
+  private isOnline: boolean;
   private syncInProgress: boolean = false;
+  private queueRerunRequested = false;
+  private queueRetryTimer: TimerHandle | null = null;
+  private inFlightWrites: Set<string> = new Set();
   private cache: Map<string, Map<string, DataItem>> = new Map();
   private cacheTimeout: number = 60000; // 1 minute
   private listeners: Map<string, Set<(data: any) => void>> = new Map();
-
-  constructor(deviceId?: string) {
+  private registeredStores: Map<string, StoreDefinition> = new Map();
+  private initPromise: Promise<void> | null = null;
+  private schemaDirty = false;
+  private backgroundSyncTimer: TimerHandle | null = null;
+  private unsubscribeNetwork: (() => void) | null = null;
+  private unsubscribeTabs: Array<() => void> = [];
+  private collections: Map<CollectionName, Collection<CollectionName>> = new Map();
+  private conflictResolvers: Map<string, ConflictResolver> = new Map();
+  private defaultConflictResolver: ConflictResolver = lastWriteWins;
+  readonly syncLog: SyncLog;
+
+  constructor(options: OfflineDataStoreOptions | string = {}) {
+    const { adapter, clock, network, transport, deviceId, coordinator } =
+      typeof options === 'string' ? { deviceId: options } : options;
+
+    this.adapter = adapter ?? indexedDBAdapter();
+    this.clock = clock ?? systemClock;
+    this.network = network ?? browserNetwork;
+    this.transport = transport ?? new HttpTransport();
+    this.coordinator = coordinator ?? singleTab;
+    this.syncLog = new SyncLog(this, {
+      clock: this.clock,
+      onChange: () => this.notifyListeners(SYNC_LOG_STORE, null),
+    });
+    this.isOnline = this.network.isOnline();
+    this.deviceIdGiven = Boolean(deviceId);
     this.deviceId = deviceId || this.generateDeviceId();
-    this.setupOnlineListeners();
+    this.registerDefaultConflictResolvers();
   }
 
   // ==================== Initialization ====================
 
-  async init(): Promise<void> {
-    return new Promise((resolve, reject) => {
-      const request = indexedDB.open(DB_NAME, DB_VERSION);
+  /**
+   * Open the database and reconcile its schema. Safe to call repeatedly;
+   * stores registered since the last call are created before it resolves.
+   * Also reopens a closed store, listening to the network and tabs again.
+   */
+  async init(options: InitOptions = {}): Promise<void> {
+    if (!this.unsubscribeNetwork) {
+      this.setupOnlineListeners();
+      this.setupTabListeners();
+    }
 
-      request.onerror = () => reject(request.error);
+    if (!this.initPromise || this.schemaDirty) {
+      const previous = this.initPromise ?? Promise.resolve();
+      this.schemaDirty = false;
+
+      this.initPromise = previous
+        .catch(() => undefined)
+        .then(() => this.openDatabase(options))
+        .catch((error) => {
+          this.initPromise = null;
+          throw error;
+        });
+    }
+
+    return this.initPromise;
+  }
+
+  /**
+   * Declare an object store owned by a subsystem (print manager, sync engine...).
+   * Call before `init()`; later registrations are picked up by the next `init()`.
+   */
+  registerStore(definition: StoreDefinition): void {
+    const existing = this.registeredStores.get(definition.name);
+    const indexes = new Map(
+      [...(existing?.indexes ?? []), ...(definition.indexes ?? [])].map((i) => [i.name, i])
+    );
+
+    this.registeredStores.set(definition.name, {
+      ...existing,
+      ...definition,
+      indexes: Array.from(indexes.values()),
+    });
+
+    if (this.initPromise) {
+      this.schemaDirty = true;
+    }
+  }
+
+  private async openDatabase(options: InitOptions): Promise<void> {
+    const stores = Array.from(this.registeredStores.values());
+    let db = this.db ?? (await this.openConnection(undefined, stores, options));
+
+    if (!(await isSchemaCurrent(db, stores))) {
+      const nextVersion = db.version + 1;
+      this.db = null;
+      db.close();
+      db = await this.openConnection(nextVersion, stores, options);
+    }
+
+    db.onversionchange = () => {
+      // Another tab is upgrading the schema; release our connection
+      db.close();
+      this.db = null;
+      this.initPromise = null;
+    };
+
+    this.db = db;
+    await this.adoptDatabaseDeviceId();
+    this.startBackgroundSync();
+  }
+
+  /**
+   * The database remembers which device wrote it. Contexts without
+   * localStorage (the service worker) take that id over instead of acting
+   * as a new device; the first context to open the database records its own.
+   * An explicitly given `deviceId` is kept as is.
+   */
+  private async adoptDatabaseDeviceId(): Promise<void> {
+    await this.executeTransaction(META_STORE, 'readwrite', (objectStore) => {
+      const request = objectStore.get(DEVICE_KEY);
       request.onsuccess = () => {
-        this.db = request.result;
-        this.startBackgroundSync();
-        resolve();
+        const recorded: string | undefined = request.result?.deviceId;
+        if (recorded) {
+          if (!this.deviceIdGiven) this.deviceId = recorded;
+        } else {
+          objectStore.put({ id: DEVICE_KEY, deviceId: this.deviceId });
+        }
+      };
+    });
+  }
+
+  private openConnection(
+    version: number | undefined,
+    stores: StoreDefinition[],
+    options: InitOptions
+  ): Promise<IDBDatabase> {
+    return new Promise((resolve, reject) => {
+      const request = this.adapter.indexedDB.open(this.adapter.databaseName, version);
+      let migrationError: unknown = null;
+
+      request.onerror = () => reject(migrationError ?? request.error);
+      request.onblocked = () => {
+        console.warn('[DB] Upgrade blocked by another open tab, waiting for it to close...');
       };
+      request.onsuccess = () => resolve(request.result);
 
       request.onupgradeneeded = (event) => {
-        const db = (event.target as IDBOpenDBRequest).result;
-
-        // Create object stores
-        STORES.forEach((storeName) => {
-          if (!db.objectStoreNames.contains(storeName)) {
-            const store = db.createObjectStore(storeName, { keyPath: 'id' });
-
-            // Create indexes based on store type
-            switch (storeName) {
-              case 'products':
-                store.createIndex('category', 'data.category', { unique: false });
-                store.createIndex('searchText', 'data.searchText', { unique: false });
-                break;
-              case 'orders':
-                store.createIndex('status', 'data.status', { unique: false });
-                store.createIndex('createdAt', 'data.createdAt', { unique: false });
-                store.createIndex('statusCreatedAt', ['data.status', 'data.createdAt'], { unique: false });
-                break;
-              case 'syncQueue':
-                store.createIndex('timestamp', 'timestamp', { unique: false });
-                break;
-            }
-          }
+        const transaction = request.transaction!;
+
+        upgradeSchema(
+          request.result,
+          transaction,
+          event.oldVersion,
+          stores,
+          options.onMigrationProgress
+        ).catch((error) => {
+          console.error('[DB] Migration failed, rolling back upgrade:', error);
+          migrationError = error;
+          transaction.abort();
         });
       };
     });
   }
 
   private generateDeviceId(): string {
+    // Outside the browser every store instance is its own device
+    if (typeof localStorage === 'undefined') return crypto.randomUUID();
+
     let deviceId = localStorage.getItem('pos-device-id');
     if (!deviceId) {
       deviceId = crypto.randomUUID();
@@ -108,14 +366,42 @@ export class OfflineDataStore {
   }
 
   private setupOnlineListeners(): void {
-    window.addEventListener('online', () => {
-      this.isOnline = true;
-      this.processQueuedWrites();
+    // Connectivity may have changed while the store was closed
+    this.isOnline = this.network.isOnline();
+    this.unsubscribeNetwork = this.network.subscribe((online) => {
+      this.isOnline = online;
+      if (online) {
+        this.scheduleQueuedWrites();
+      }
+    });
+  }
+
+  /**
+   * Other tabs write to the same database: drop what they changed from
+   * this tab's cache and pass their notifications on to local listeners.
+   * Queued writes are only sent by the leader tab.
+   */
+  private setupTabListeners(): void {
+    const onChanged = this.coordinator.on<StoreChange>(STORE_CHANGED_TOPIC, ({ store, data }) => {
+      const id = (data as { id?: unknown } | null)?.id;
+      if (typeof id === 'string') {
+        this.removeCached(store, id);
+      } else {
+        this.cache.delete(store);
+      }
+      this.dispatchToListeners(store, data);
     });
 
-    window.addEventListener('offline', () => {
-      this.isOnline = false;
+    const onFlush = this.coordinator.on(FLUSH_QUEUE_TOPIC, () => {
+      if (this.coordinator.isLeader()) this.scheduleQueuedWrites();
     });
+
+    const onLeadership = this.coordinator.onLeadershipChange((isLeader) => {
+      // Pick up whatever the previous leader left queued or in flight
+      if (isLeader && this.db) this.scheduleQueuedWrites();
+    });
+
+    this.unsubscribeTabs = [onChanged, onFlush, onLeadership];
   }
 
   // ==================== CRUD Operations ====================
@@ -123,14 +409,18 @@ export class OfflineDataStore {
   /**
    * Read with cache support
    */
-  async get<T>(store: string, id: string): Promise<DataItem<T> | null> {
-    // Check cache first
+  async get<T>(store: string, id: string, options: GetOptions = {}): Promise<DataItem<T> | null> {
+    // Check cache first (tombstones are never cached)
     const cached = this.getCached(store, id);
     if (cached) return cached as DataItem<T>;
 
     // Read from IndexedDB
     const item = await this.getFromDB<T>(store, id);
 
+    if (item && isTombstone(item)) {
+      return options.includeDeleted ? item : null;
+    }
+
     if (item) {
       this.updateCache(store, id, item);
     }
@@ -139,38 +429,45 @@ export class OfflineDataStore {
   }
 
   /**
-   * Write with automatic queueing when offline
+   * Write and queue the change for sync. The queue sends it right away when
+   * online, under one idempotency key however often it is retried.
+   * Collection records are checked against their schema first.
    */
   async put<T>(store: string, id: string, data: T): Promise<void> {
     if (!this.db) throw new Error('Database not initialized');
 
-    const item: DataItem<T> = {
-      id,
-      data,
-      version: Date.now(),
-      deviceId: this.deviceId,
-      timestamp: Date.now(),
-      vectorClock: { [this.deviceId]: Date.now() },
-      syncStatus: this.isOnline ? 'synced' : 'pending',
-    };
+    if (isCollectionName(store)) {
+      validateRecord(store, data);
+    }
+
+    let item!: DataItem<T>;
+    const sync = this.isSyncedStore(store);
+
+    // Pending until the server confirms it (see `markSynced`)
+    const syncStatus = sync ? 'pending' : 'synced';
 
-    // Write to IndexedDB with transaction
-    await this.executeTransaction(store, 'readwrite', async (objectStore) => {
-      objectStore.put(item);
+    // Read the previous version, write the next one and queue it in a single transaction
+    const storeNames = sync ? [store, 'syncQueue'] : [store];
+    await this.executeMultiStoreTransaction(storeNames, 'readwrite', (stores, abort) => {
+      const objectStore = stores.get(store)!;
+      const request = objectStore.get(id);
+
+      request.onerror = () => abort(request.error);
+      request.onsuccess = () => {
+        item = this.createItem(id, data, syncStatus, request.result);
+        objectStore.put(item);
+        if (sync) {
+          const write = this.createWriteOperation(store, 'put', { id, data });
+          this.enqueueWrite(stores.get('syncQueue')!, write, abort);
+        }
+      };
     });
 
     // Update cache
     this.updateCache(store, id, item);
 
-    // Queue for sync if offline
-    if (!this.isOnline) {
-      await this.queueWrite(store, id, data);
-    } else {
-      // Optimistic sync
-      this.syncItem(store, id, item).catch((error) => {
-        console.error('Sync failed:', error);
-        this.queueWrite(store, id, data);
-      });
+    if (sync && this.isOnline) {
+      this.scheduleQueuedWrites();
     }
 
     // Notify listeners
@@ -178,21 +475,35 @@ export class OfflineDataStore {
   }
 
   /**
-   * Delete with queueing support
+   * Delete by writing a tombstone, so the deletion syncs like any other
+   * change. Device-local stores are deleted outright.
    */
   async delete(store: string, id: string): Promise<void> {
     if (!this.db) throw new Error('Database not initialized');
 
-    await this.executeTransaction(store, 'readwrite', async (objectStore) => {
-      objectStore.delete(id);
-    });
+    if (!this.isSyncedStore(store)) {
+      await this.executeTransaction(store, 'readwrite', (objectStore) => {
+        objectStore.delete(id);
+      });
+    } else {
+      await this.executeMultiStoreTransaction([store, 'syncQueue'], 'readwrite', (stores, abort) => {
+        const objectStore = stores.get(store)!;
+        const request = objectStore.get(id);
+
+        request.onerror = () => abort(request.error);
+        request.onsuccess = () => {
+          const tombstone = this.createTombstone(id, request.result);
+          objectStore.put(tombstone);
+          this.enqueueWrite(stores.get('syncQueue')!, this.createDeleteOperation(store, tombstone), abort);
+        };
+      });
+    }
 
     // Remove from cache
     this.removeCached(store, id);
 
-    // Queue deletion
-    if (!this.isOnline) {
-      await this.queueDelete(store, id);
+    if (this.isOnline) {
+      this.scheduleQueuedWrites();
     }
 
     // Notify listeners
@@ -215,11 +526,118 @@ export class OfflineDataStore {
       const source = indexName ? objectStore.index(indexName) : objectStore;
       const request = query ? source.getAll(query) : source.getAll();
 
-      request.onsuccess = () => resolve(request.result);
+      request.onsuccess = () => resolve(request.result.filter((item) => !isTombstone(item)));
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  /**
+   * Read a single page with a cursor instead of loading the whole store.
+   * Pass the returned `nextCursor` as `after` to fetch the following page.
+   */
+  async queryPage<T>(store: string, options: QueryOptions = {}): Promise<Page<T>> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const {
+      index,
+      range,
+      direction = 'next',
+      limit = DEFAULT_PAGE_SIZE,
+      after,
+      includeDeleted = false,
+    } = options;
+    const forward = direction.startsWith('next');
+    // Duplicate index keys are ordered by primary key, except for unique cursors
+    const comparePrimaryKey = Boolean(index) && !direction.endsWith('unique');
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(store, 'readonly');
+      const objectStore = transaction.objectStore(store);
+      const source = index ? objectStore.index(index) : objectStore;
+      const request = source.openCursor(range ?? null, direction);
+
+      const items: DataItem<T>[] = [];
+      let seeking = Boolean(after);
+      let lastPosition: PageCursor | null = null;
+
+      request.onsuccess = () => {
+        const cursor = request.result;
+
+        if (!cursor) {
+          resolve({ items, nextCursor: null });
+          return;
+        }
+
+        // Peeked one record past the limit: there is another page
+        if (lastPosition) {
+          resolve({ items, nextCursor: lastPosition });
+          return;
+        }
+
+        if (seeking && after) {
+          let order = this.adapter.indexedDB.cmp(cursor.key, after.key);
+          if (order === 0 && comparePrimaryKey) {
+            order = this.adapter.indexedDB.cmp(cursor.primaryKey, after.primaryKey);
+          }
+
+          if (order === 0) {
+            cursor.continue();
+            return;
+          }
+          if (forward ? order < 0 : order > 0) {
+            if (comparePrimaryKey) {
+              cursor.continuePrimaryKey(after.key, after.primaryKey);
+            } else {
+              cursor.continue(after.key);
+            }
+            return;
+          }
+          seeking = false;
+        }
+
+        if (!includeDeleted && isTombstone(cursor.value)) {
+          cursor.continue();
+          return;
+        }
+
+        items.push(cursor.value);
+
+        if (items.length >= limit) {
+          lastPosition = { key: cursor.key, primaryKey: cursor.primaryKey };
+        }
+        cursor.continue();
+      };
       request.onerror = () => reject(request.error);
     });
   }
 
+  /**
+   * Async iteration over a store or index, one page per transaction
+   */
+  async *iterate<T>(
+    store: string,
+    options: IterateOptions = {}
+  ): AsyncGenerator<DataItem<T>, void, undefined> {
+    const { pageSize = DEFAULT_PAGE_SIZE, ...queryOptions } = options;
+    let after = options.after ?? null;
+
+    do {
+      const page = await this.queryPage<T>(store, { ...queryOptions, limit: pageSize, after });
+      yield* page.items;
+      after = page.nextCursor;
+    } while (after);
+  }
+
+  /**
+   * Typed, schema-validated view of a store
+   */
+  collection<K extends CollectionName>(name: K): Collection<K> {
+    if (!this.collections.has(name)) {
+      this.collections.set(name, new Collection(this, name));
+    }
+    return this.collections.get(name) as Collection<K>;
+  }
+
   // ==================== Transaction Support ====================
 
   async executeTransaction<T>(
@@ -249,216 +667,1193 @@ export class OfflineDataStore {
     });
   }
 
+  /**
+   * Run a callback against several stores in one IndexedDB transaction.
+   *
+   * The callback must issue its requests synchronously or from request
+   * callbacks: awaiting anything else lets the transaction auto-commit early.
+   * Call `abort(error)` to roll everything back and reject with that error.
+   */
   async executeMultiStoreTransaction(
     storeNames: string[],
     mode: IDBTransactionMode,
-    callback: (stores: Map<string, IDBObjectStore>) => void | Promise<void>
+    callback: (stores: Map<string, IDBObjectStore>, abort: (error: unknown) => void) => void
   ): Promise<void> {
     if (!this.db) throw new Error('Database not initialized');
 
     return new Promise((resolve, reject) => {
       const transaction = this.db!.transaction(storeNames, mode);
       const stores = new Map<string, IDBObjectStore>();
+      let failure: unknown = null;
 
       storeNames.forEach((name) => {
         stores.set(name, transaction.objectStore(name));
       });
 
+      const abort = (error: unknown) => {
+        if (failure) return;
+        failure = error;
+        try {
+          transaction.abort();
+        } catch {
+          // Already finished or aborted
+        }
+      };
+
       transaction.oncomplete = () => resolve();
-      transaction.onerror = () => reject(transaction.error);
-      transaction.onabort = () => reject(new Error('Transaction aborted'));
+      transaction.onerror = () => reject(failure ?? transaction.error);
+      transaction.onabort = () => reject(failure ?? transaction.error ?? new Error('Transaction aborted'));
 
       try {
-        const result = callback(stores);
-        if (result instanceof Promise) {
-          result.catch(reject);
-        }
+        callback(stores, abort);
       } catch (error) {
-        transaction.abort();
-        reject(error);
+        abort(error);
       }
     });
   }
 
-  // ==================== Sync Queue Management ====================
+  // ==================== Unit of Work ====================
 
-  private async queueWrite(store: string, id: string, data: any): Promise<void> {
-    const operation: WriteOperation = {
-      id: crypto.randomUUID(),
-      store,
-      operation: 'put',
-      data: { id, data },
-      timestamp: Date.now(),
-      retryCount: 0,
-    };
+  /**
+   * Start a batch of writes that commit atomically across stores
+   */
+  unitOfWork(): UnitOfWork {
+    return new UnitOfWork(this);
+  }
 
-    await this.executeTransaction('syncQueue', 'readwrite', (objectStore) => {
-      objectStore.put({ id: operation.id, ...operation });
+  /**
+   * Apply all operations and their sync queue entries in a single transaction.
+   * Cache updates and listener notifications happen only after commit.
+   */
+  async commitUnitOfWork(operations: UnitOfWorkOperation[]): Promise<void> {
+    if (operations.length === 0) return;
+
+    const storeNames = Array.from(new Set([...operations.map((op) => op.store), 'syncQueue']));
+    const changes: Array<{ store: string; id: string; item: DataItem | null }> = [];
+
+    await this.executeMultiStoreTransaction(storeNames, 'readwrite', (stores, abort) => {
+      const syncQueue = stores.get('syncQueue')!;
+
+      // Operations run one after another so updates see earlier writes to the same key
+      const runOperation = (index: number) => {
+        const op = operations[index];
+        if (!op) return;
+
+        const objectStore = stores.get(op.store)!;
+        const request = objectStore.get(op.id);
+
+        request.onerror = () => abort(request.error);
+        request.onsuccess = () => {
+          try {
+            const previous: DataItem | undefined = request.result;
+
+            const sync = op.sync !== false && this.isSyncedStore(op.store);
+
+            if (op.type === 'delete') {
+              if (sync) {
+                const tombstone = this.createTombstone(op.id, previous);
+                objectStore.put(tombstone);
+                this.enqueueWrite(syncQueue, this.createDeleteOperation(op.store, tombstone), abort);
+              } else {
+                objectStore.delete(op.id);
+              }
+              changes.push({ store: op.store, id: op.id, item: null });
+            } else {
+              const data =
+                op.type === 'put' ? op.data : op.update((previous?.data ?? null) as never);
+
+              if (data !== undefined) {
+                if (isCollectionName(op.store)) {
+                  validateRecord(op.store, data);
+                }
+
+                const item = this.createItem(op.id, data, sync ? 'pending' : 'synced', previous);
+                objectStore.put(item);
+                if (sync) {
+                  const write = this.createWriteOperation(op.store, 'put', { id: op.id, data });
+                  this.enqueueWrite(syncQueue, write, abort);
+                }
+                changes.push({ store: op.store, id: op.id, item });
+              }
+            }
+
+            runOperation(index + 1);
+          } catch (error) {
+            abort(error);
+          }
+        };
+      };
+
+      runOperation(0);
+    });
+
+    changes.forEach(({ store, id, item }) => {
+      if (item) {
+        this.updateCache(store, id, item);
+        this.notifyListeners(store, item);
+      } else {
+        this.removeCached(store, id);
+        this.notifyListeners(store, { id, deleted: true });
+      }
     });
+
+    if (this.isOnline) {
+      this.scheduleQueuedWrites();
+    }
   }
 
-  private async queueDelete(store: string, id: string): Promise<void> {
-    const operation: WriteOperation = {
+  // ==================== Sync Queue Management ====================
+
+  private createWriteOperation(
+    store: string,
+    operation: WriteOperation['operation'],
+    data: WriteOperation['data']
+  ): WriteOperation {
+    const now = this.clock.now();
+
+    return {
       id: crypto.randomUUID(),
       store,
-      operation: 'delete',
-      data: { id },
-      timestamp: Date.now(),
+      operation,
+      data,
+      timestamp: now,
       retryCount: 0,
+      idempotencyKey: crypto.randomUUID(),
+      sequence: now,
+      nextAttemptAt: now,
     };
-
-    await this.executeTransaction('syncQueue', 'readwrite', (objectStore) => {
-      objectStore.put({ id: operation.id, ...operation });
-    });
   }
 
-  private async processQueuedWrites(): Promise<void> {
-    if (this.syncInProgress || !this.isOnline) return;
+  /**
+   * Queue a write from inside a transaction over `syncQueue`. A queued write
+   * to the same record that has never been attempted is superseded in place:
+   * the newer payload takes over its position and its unused idempotency key.
+   */
+  private enqueueWrite(
+    syncQueue: IDBObjectStore,
+    operation: WriteOperation,
+    abort: (error: unknown) => void
+  ): void {
+    const lastRequest = syncQueue.index('sequence').openCursor(null, 'prev');
+    const entityRequest = syncQueue.index('entity').getAll([operation.store, operation.data.id]);
+
+    lastRequest.onerror = () => abort(lastRequest.error);
+    entityRequest.onerror = () => abort(entityRequest.error);
+    entityRequest.onsuccess = () => {
+      const queued: WriteOperation[] = entityRequest.result;
+      const superseded = queued.find((op) => this.isCoalescible(op));
+
+      if (superseded) {
+        syncQueue.put({
+          ...operation,
+          id: superseded.id,
+          idempotencyKey: superseded.idempotencyKey,
+          sequence: superseded.sequence,
+        });
+        return;
+      }
 
-    this.syncInProgress = true;
+      // Never behind anything already queued, even if the clock went backwards
+      const last: WriteOperation | undefined = lastRequest.result?.value;
+      syncQueue.put({ ...operation, sequence: Math.max(operation.sequence, (last?.sequence ?? 0) + 1) });
+    };
+  }
 
-    try {
-      const queuedOps = await this.query<WriteOperation>('syncQueue');
+  private isCoalescible(op: WriteOperation): boolean {
+    return op.lastAttemptAt === undefined && !this.inFlightWrites.has(op.id);
+  }
 
-      for (const op of queuedOps) {
-        try {
-          await this.executeQueuedOperation(op);
-
-          // Remove from queue on success
-          await this.executeTransaction('syncQueue', 'readwrite', (objectStore) => {
-            objectStore.delete(op.id);
-          });
-        } catch (error) {
-          // Retry with exponential backoff
-          await this.handleSyncFailure(op, error);
-        }
-      }
-    } finally {
-      this.syncInProgress = false;
-    }
+  private createDeleteOperation(store: string, tombstone: DataItem): WriteOperation {
+    return this.createWriteOperation(store, 'delete', {
+      id: tombstone.id,
+      version: tombstone.version,
+      vectorClock: tombstone.vectorClock,
+      deletedAt: tombstone.deletedAt,
+    });
   }
 
-  private async executeQueuedOperation(op: WriteOperation): Promise<void> {
-    // Simulate API call - replace with actual endpoint
-    const delay = Math.min(
-      INITIAL_RETRY_DELAY * Math.pow(2, op.retryCount),
-      MAX_RETRY_DELAY
-    );
+  /**
+   * Queued writes in the order they were enqueued
+   */
+  async getQueuedWrites(): Promise<WriteOperation[]> {
+    let operations: WriteOperation[] = [];
 
-    await new Promise((resolve) => setTimeout(resolve, delay));
+    await this.executeTransaction('syncQueue', 'readonly', (objectStore) => {
+      const request = objectStore.index('sequence').getAll();
+      request.onsuccess = () => {
+        operations = request.result;
+      };
+    });
 
-    if (op.operation === 'put') {
-      // await fetch(`/api/${op.store}/${op.data.id}`, {
-      //   method: 'PUT',
-      //   body: JSON.stringify(op.data),
-      // });
-      console.log(`[SYNC] PUT ${op.store}/${op.data.id}`);
-    } else if (op.operation === 'delete') {
-      // await fetch(`/api/${op.store}/${op.data.id}`, { method: 'DELETE' });
-      console.log(`[SYNC] DELETE ${op.store}/${op.data.id}`);
-    }
+    return operations;
   }
 
-  private async handleSyncFailure(op: WriteOperation, error: any): Promise<void> {
-    op.retryCount++;
-
-    if (op.retryCount >= MAX_RETRY_ATTEMPTS) {
-      console.error(`Max retries exceeded for operation ${op.id}`, error);
-      // Move to dead letter queue
-      await this.executeTransaction('conflicts', 'readwrite', (objectStore) => {
-        objectStore.put({ ...op, error: error.message });
-      });
-      // Remove from sync queue
-      await this.executeTransaction('syncQueue', 'readwrite', (objectStore) => {
-        objectStore.delete(op.id);
-      });
-    } else {
-      // Update retry count
-      await this.executeTransaction('syncQueue', 'readwrite', (objectStore) => {
-        objectStore.put({ id: op.id, ...op });
-      });
-    }
+  /**
+   * Start a queue pass without waiting for it. A pass that fails (a closed
+   * tab, a broken transaction) leaves its writes queued for the next one.
+   */
+  private scheduleQueuedWrites(): void {
+    this.processQueuedWrites().catch((error) => {
+      console.error('[DB] Sending queued writes failed:', error);
+    });
   }
 
-  // ==================== Conflict Resolution ====================
+  /**
+   * Send every write that is due, in enqueue order. Writes to one record go
+   * out one at a time: while its oldest write is failing or backing off, the
+   * later ones wait. Retries are scheduled for `nextAttemptAt` instead of
+   * being waited out here.
+   */
+  private async processQueuedWrites(): Promise<void> {
+    if (!this.coordinator.isLeader()) {
+      this.coordinator.publish(FLUSH_QUEUE_TOPIC);
+      return;
+    }
+    if (!this.isOnline) return;
+    if (this.syncInProgress) {
+      this.queueRerunRequested = true;
+      return;
+    }
 
-  private async syncItem<T>(store: string, id: string, localItem: DataItem<T>): Promise<void> {
-    // Simulate fetching from server
-    // const response = await fetch(`/api/${store}/${id}`);
-    // const remoteItem: DataItem<T> = await response.json();
+    this.syncInProgress = true;
+    this.queueRerunRequested = false;
+    this.cancelQueueRetry();
 
-    // For demo purposes, skip actual sync
-    // In production, compare vector clocks and resolve conflicts
-  }
+    let nextAttemptAt = Infinity;
 
-  async resolveConflict<T>(
-    store: string,
-    localItem: DataItem<T>,
-    remoteItem: DataItem<T>
-  ): Promise<DataItem<T>> {
-    // Compare vector clocks
-    const localIsNewer = this.compareVectorClocks(
-      localItem.vectorClock,
-      remoteItem.vectorClock
-    );
+    try {
+      // Waits while SyncEngine or the service worker is talking to the server
+      nextAttemptAt = await withSyncLock(() => this.sendDueWrites());
+    } finally {
+      this.syncInProgress = false;
+    }
 
-    if (localIsNewer === 0) {
-      // Concurrent modification - apply business rules
-      return this.mergeConflict(store, localItem, remoteItem);
-    } else if (localIsNewer > 0) {
-      return localItem;
-    } else {
-      return remoteItem;
+    if (this.queueRerunRequested) {
+      return this.processQueuedWrites();
+    }
+    if (nextAttemptAt !== Infinity) {
+      this.scheduleQueueRetry(nextAttemptAt);
     }
   }
 
-  private compareVectorClocks(
-    clock1: Record<string, number>,
-    clock2: Record<string, number>
-  ): number {
-    let clock1Ahead = false;
-    let clock2Ahead = false;
+  /**
+   * One pass over the queue; returns when the earliest held-back write is due
+   */
+  private async sendDueWrites(): Promise<number> {
+    let nextAttemptAt = Infinity;
+    const now = this.clock.now();
+    const heldBack = new Set<string>();
+
+    for (const queued of await this.getQueuedWrites()) {
+      const entity = `${queued.store}/${queued.data?.id}`;
+      if (heldBack.has(entity)) continue;
+
+      if (queued.nextAttemptAt > now) {
+        heldBack.add(entity);
+        nextAttemptAt = Math.min(nextAttemptAt, queued.nextAttemptAt);
+        continue;
+      }
+
+      // Re-read it: a newer write may have been coalesced into it meanwhile
+      const op = await this.claimQueuedWrite(queued.id);
+      if (!op) continue;
+
+      const startedAt = this.clock.now();
 
-    const allDevices = new Set([...Object.keys(clock1), ...Object.keys(clock2)]);
+      try {
+        await this.executeQueuedOperation(op);
+        this.syncLog.record({
+          event: 'push',
+          entity: op.store,
+          ids: [op.data.id],
+          durationMs: this.clock.now() - startedAt,
+          message: `Sent queued ${op.operation}`,
+        });
 
-    for (const deviceId of allDevices) {
-      const v1 = clock1[deviceId] || 0;
-      const v2 = clock2[deviceId] || 0;
+        // Remove from queue on success
+        await this.executeTransaction('syncQueue', 'readwrite', (objectStore) => {
+          objectStore.delete(op.id);
+        });
+      } catch (error) {
+        if (error instanceof AuthenticationError) {
+          // Not this write's fault: the whole queue waits until the device may sync again
+          console.warn(`[SYNC] Queue paused: ${error.message}`);
+          return Infinity;
+        }
 
-      if (v1 > v2) clock1Ahead = true;
-      if (v2 > v1) clock2Ahead = true;
+        heldBack.add(entity);
+        const retryAt = await this.handleSyncFailure(op, error);
+        if (retryAt !== null) {
+          nextAttemptAt = Math.min(nextAttemptAt, retryAt);
+        }
+      } finally {
+        this.inFlightWrites.delete(op.id);
+      }
     }
 
-    if (clock1Ahead && !clock2Ahead) return 1;
-    if (clock2Ahead && !clock1Ahead) return -1;
-    return 0; // Concurrent
+    return nextAttemptAt;
   }
 
-  private mergeConflict<T>(
-    store: string,
+  /**
+   * Send everything that is due and wait for it, e.g. from a Background Sync
+   * event. Resolves with the number of writes still queued (backing off,
+   * held back behind a failing write, or waiting for another tab).
+   */
+  async flushQueuedWrites(): Promise<number> {
+    await this.processQueuedWrites();
+    return (await this.getQueuedWrites()).length;
+  }
+
+  /**
+   * Read a queued write and mark it in flight in the same callback, so no
+   * write can be coalesced into it between the read and the send.
+   */
+  private async claimQueuedWrite(id: string): Promise<WriteOperation | null> {
+    let op: WriteOperation | null = null;
+
+    await this.executeTransaction('syncQueue', 'readonly', (objectStore) => {
+      const request = objectStore.get(id);
+      request.onsuccess = () => {
+        op = request.result ?? null;
+        if (op) this.inFlightWrites.add(id);
+      };
+    });
+
+    return op;
+  }
+
+  private scheduleQueueRetry(at: number): void {
+    this.cancelQueueRetry();
+    this.queueRetryTimer = this.clock.setTimeout(() => {
+      this.queueRetryTimer = null;
+      if (this.isOnline) {
+        this.scheduleQueuedWrites();
+      }
+    }, Math.max(0, at - this.clock.now()));
+  }
+
+  private cancelQueueRetry(): void {
+    if (this.queueRetryTimer) {
+      this.clock.clearTimeout(this.queueRetryTimer);
+      this.queueRetryTimer = null;
+    }
+  }
+
+  private async executeQueuedOperation(op: WriteOperation): Promise<void> {
+    const id: string = op.data.id;
+    const local = await this.getFromDB(op.store, id);
+    const options = { idempotencyKey: op.idempotencyKey };
+
+    if (op.operation === 'put') {
+      // Deleted since; the delete queued after this write replaces it
+      if (local && isTombstone(local)) return;
+
+      const record: WireRecord = local ? toWireFormat(local) : { ...op.data.data, id };
+      const result = await this.transport.put(op.store, record, options);
+      console.log(`[SYNC] PUT ${op.store}/${id}: ${result.status}`);
+
+      if (result.status === 'conflict') {
+        await this.handleWriteConflict(op.store, id, result.current);
+      } else if (local) {
+        await this.markSynced(op.store, id, result.record?.version, local);
+      }
+    } else if (op.operation === 'delete') {
+      const tombstone: WireRecord = local && isTombstone(local) ? toWireFormat(local) : op.data;
+      const result = await this.transport.delete(op.store, tombstone, options);
+      console.log(`[SYNC] DELETE ${op.store}/${id}: ${result.status}`);
+
+      if (result.status === 'conflict') {
+        await this.handleWriteConflict(op.store, id, result.current);
+      } else if (local && isTombstone(local)) {
+        await this.acknowledgeDelete(op.store, id);
+      }
+    }
+  }
+
+  /**
+   * The server refused a write because it holds a version this device has
+   * not seen (409/412). Settle it like any concurrent edit; if the local
+   * side survives, the result is queued again on top of the server version.
+   */
+  private async handleWriteConflict(store: string, id: string, current?: WireRecord): Promise<void> {
+    const record = current ?? (await this.transport.get(store, id));
+    if (!record) {
+      throw new TransportError(`Conflict on ${store}/${id} without a server version`, true);
+    }
+
+    // Resolved once, by the same merge as pulled changes; the log reports what it decided
+    const { outcome, item } = await this.applyRemote(store, fromWireFormat(record));
+
+    // Our clock already covers the server's version, so it should not have refused
+    if (outcome === 'local-newer') {
+      throw new TransportError(`Server rejected ${store}/${id} although it is newer`, true);
+    }
+
+    let decision = 'server version kept';
+    if (outcome === 'manual') decision = 'parked for review';
+    else if (item.syncStatus === 'pending') decision = 'local or merged version kept';
+    console.log(`[SYNC] Conflict on ${store}/${id}: ${decision}`);
+
+    if (item.syncStatus === 'pending') {
+      await this.executeMultiStoreTransaction(['syncQueue'], 'readwrite', (stores, abort) => {
+        const write = isTombstone(item)
+          ? this.createDeleteOperation(store, item)
+          : this.createWriteOperation(store, 'put', { id, data: item.data });
+        this.enqueueWrite(stores.get('syncQueue')!, write, abort);
+      });
+
+      this.scheduleQueuedWrites();
+    }
+  }
+
+  /**
+   * Back off a failed write, or dead-letter it once its retries run out.
+   * Returns when it will next be attempted, or null if it was dead-lettered.
+   */
+  private async handleSyncFailure(op: WriteOperation, error: unknown): Promise<number | null> {
+    const now = this.clock.now();
+    const { message } = error instanceof Error ? error : { message: String(error) };
+    const retryCount = op.retryCount + 1;
+    const permanent = error instanceof TransportError && !error.retryable;
+
+    if (permanent || retryCount >= MAX_RETRY_ATTEMPTS) {
+      if (permanent) {
+        console.error(`Operation ${op.id} rejected by the server`, error);
+      } else {
+        console.error(`Max retries exceeded for operation ${op.id}`, error);
+      }
+      // Move to dead letter queue
+      await this.executeMultiStoreTransaction(['conflicts', 'syncQueue'], 'readwrite', (stores) => {
+        const deadLetter: DeadLetter = {
+          ...op,
+          retryCount,
+          lastAttemptAt: now,
+          kind: 'dead-letter',
+          error: message,
+          failedAt: now,
+        };
+        stores.get('conflicts')!.put(deadLetter);
+        stores.get('syncQueue')!.delete(op.id);
+      });
+      this.notifyListeners('conflicts', { id: op.id });
+      this.syncLog.record({
+        event: 'dead-letter',
+        entity: op.store,
+        ids: [op.data?.id],
+        error: message,
+        message: permanent
+          ? `Queued ${op.operation} rejected by the server`
+          : `Queued ${op.operation} gave up after ${retryCount} attempts`,
+      });
+      return null;
+    }
+
+    // Exponential backoff: 1s, 2s, 4s... capped
+    const delay = Math.min(INITIAL_RETRY_DELAY * Math.pow(2, op.retryCount), MAX_RETRY_DELAY);
+    const nextAttemptAt = now + delay;
+
+    await this.executeTransaction('syncQueue', 'readwrite', (objectStore) => {
+      objectStore.put({ ...op, retryCount, lastAttemptAt: now, nextAttemptAt });
+    });
+
+    this.syncLog.record({
+      event: 'retry',
+      entity: op.store,
+      ids: [op.data?.id],
+      error: message,
+      message: `Queued ${op.operation} failed (attempt ${retryCount}), retrying in ${delay}ms`,
+    });
+
+    return nextAttemptAt;
+  }
+
+  // ==================== Conflict Resolution ====================
+
+  /**
+   * Use a custom resolver for concurrent edits in `store`
+   */
+  registerConflictResolver<K extends CollectionName>(
+    store: K,
+    resolver: ConflictResolver<StoreTypeMap[K]>
+  ): void;
+  registerConflictResolver<T>(store: string, resolver: ConflictResolver<T>): void;
+  registerConflictResolver(store: string, resolver: ConflictResolver<never>): void {
+    this.conflictResolvers.set(store, resolver as unknown as ConflictResolver);
+  }
+
+  setDefaultConflictResolver(resolver: ConflictResolver): void {
+    this.defaultConflictResolver = resolver;
+  }
+
+  private registerDefaultConflictResolvers(): void {
+    // Cashier and kitchen usually touch different order fields
+    this.registerConflictResolver('orders', fieldMerge());
+    // Stock counters merge commutatively, so no device's sales are lost
+    this.registerConflictResolver('inventory', counterMerge);
+    // Server authoritative
+    this.registerConflictResolver('products', remoteWins);
+  }
+
+  /**
+   * Merge a version received from the server into the local store
+   */
+  async applyRemote<T>(store: string, remoteItem: DataItem<T>): Promise<RemoteMergeResult<T>> {
+    const [result] = await this.applyRemoteChanges(store, [remoteItem]);
+    return result;
+  }
+
+  /**
+   * Merge a page of server changes in one transaction, together with the
+   * change-feed cursor that follows it: after a crash the feed resumes from
+   * exactly the last page that was stored.
+   *
+   * With `since`, the cursor only moves if the stored one is still `since`:
+   * changes pushed out of order are merged without skipping the feed past
+   * the ones that were missed.
+   */
+  async applyRemoteChanges<T>(
+    store: string,
+    remoteItems: DataItem<T>[],
+    cursor?: string,
+    since?: string
+  ): Promise<RemoteMergeResult<T>[]> {
+    const merges: Array<{ result: RemoteMergeResult<T>; written: boolean }> = [];
+
+    // A record that breaks the schema rejects the whole page before anything is merged
+    if (isCollectionName(store)) {
+      remoteItems.forEach((item) => {
+        if (!isTombstone(item)) validateRecord(store, item.data);
+      });
+    }
+
+    const storeNames = [store, META_STORE, 'conflicts'];
+
+    await this.executeMultiStoreTransaction(storeNames, 'readwrite', (stores, abort) => {
+      const objectStore = stores.get(store)!;
+      const meta = stores.get(META_STORE)!;
+
+      // One item after another, so repeated ids in a page see each other
+      const mergeNext = (index: number) => {
+        const remoteItem = remoteItems[index];
+        if (!remoteItem) {
+          if (cursor !== undefined) {
+            this.advanceSyncCursor(meta, store, cursor, since, abort);
+          }
+          return;
+        }
+
+        const request = objectStore.get(remoteItem.id);
+
+        request.onerror = () => abort(request.error);
+        request.onsuccess = () => {
+          try {
+            const local: DataItem<T> | undefined = request.result;
+            let result = this.reconcile(store, local, remoteItem);
+            let written = false;
+
+            // Tombstone acknowledgements only ever grow, whichever version wins.
+            // This device acknowledges the delete too; until the server has
+            // that, the tombstone is pending so the next push reports it.
+            if (isTombstone(result.item)) {
+              const acknowledgedBy = mergeAcknowledgements(
+                result.item.acknowledgedBy,
+                local?.acknowledgedBy,
+                remoteItem.acknowledgedBy,
+                [SERVER_PEER, this.deviceId]
+              );
+              const reported = remoteItem.acknowledgedBy?.includes(this.deviceId) ?? false;
+              written = acknowledgedBy.length > (local?.acknowledgedBy?.length ?? 0);
+              result = {
+                ...result,
+                item: {
+                  ...result.item,
+                  acknowledgedBy,
+                  ...(!reported && result.item.syncStatus === 'synced' && { syncStatus: 'pending' as const }),
+                },
+              };
+            }
+
+            written ||= result.outcome !== 'local-newer';
+            if (written) {
+              objectStore.put(result.item);
+            }
+            if (result.conflict) {
+              stores.get('conflicts')!.put(result.conflict);
+            }
+
+            merges.push({ result, written });
+            this.recordPeers(meta, remoteItem, abort);
+            mergeNext(index + 1);
+          } catch (error) {
+            abort(error);
+          }
+        };
+      };
+
+      mergeNext(0);
+    });
+
+    this.recordMergedConflicts(store, merges.map(({ result }) => result));
+
+    merges.forEach(({ result, written }) => {
+      if (result.conflict) {
+        this.notifyListeners('conflicts', result.conflict);
+      }
+
+      if (written) {
+        if (isTombstone(result.item)) {
+          this.removeCached(store, result.item.id);
+          this.notifyListeners(store, { id: result.item.id, deleted: true });
+        } else {
+          this.updateCache(store, result.item.id, result.item);
+          this.notifyListeners(store, result.item);
+        }
+      }
+    });
+
+    return merges.map(({ result }) => result);
+  }
+
+  /**
+   * One log entry per page for edits that were concurrent with local ones
+   */
+  private recordMergedConflicts(store: string, results: RemoteMergeResult[]): void {
+    const resolved = results.filter((r) => r.outcome === 'resolved').map((r) => r.item.id);
+    const manual = results.filter((r) => r.outcome === 'manual').map((r) => r.item.id);
+
+    if (resolved.length > 0) {
+      this.syncLog.record({
+        event: 'conflict',
+        entity: store,
+        ids: resolved,
+        message: `Resolved ${resolved.length} concurrent edits`,
+      });
+    }
+    if (manual.length > 0) {
+      this.syncLog.record({
+        event: 'conflict',
+        entity: store,
+        ids: manual,
+        level: 'error',
+        message: `Parked ${manual.length} concurrent edits for review`,
+      });
+    }
+  }
+
+  private advanceSyncCursor(
+    meta: IDBObjectStore,
+    store: string,
+    cursor: string,
+    since: string | undefined,
+    abort: (error: unknown) => void
+  ): void {
+    const entry = { id: syncCursorKey(store), cursor, updatedAt: this.clock.now() };
+
+    if (since === undefined) {
+      meta.put(entry);
+      return;
+    }
+
+    const request = meta.get(entry.id);
+    request.onerror = () => abort(request.error);
+    request.onsuccess = () => {
+      if (request.result?.cursor === since) {
+        meta.put(entry);
+      }
+    };
+  }
+
+  /**
+   * Server-issued position in `store`'s change feed, or null before the first pull
+   */
+  async getSyncCursor(store: string): Promise<string | null> {
+    let cursor: string | null = null;
+
+    await this.executeTransaction(META_STORE, 'readonly', (objectStore) => {
+      const request = objectStore.get(syncCursorKey(store));
+      request.onsuccess = () => {
+        cursor = request.result?.cursor ?? null;
+      };
+    });
+
+    return cursor;
+  }
+
+  private reconcile<T>(
+    store: string,
+    local: DataItem<T> | undefined,
+    remote: DataItem<T>
+  ): RemoteMergeResult<T> {
+    if (!local) {
+      return { outcome: 'inserted', item: { ...remote, syncStatus: 'synced', base: remote.data } };
+    }
+
+    // Local copy already includes the remote change; it still needs pushing
+    if (happenedBefore(remote.vectorClock, local.vectorClock)) {
+      return { outcome: 'local-newer', item: local };
+    }
+
+    if (concurrent(local.vectorClock, remote.vectorClock)) {
+      const decision = this.runConflictResolver(store, local, remote);
+      const vectorClock = mergeClocks(local.vectorClock, remote.vectorClock);
+
+      switch (decision.resolution) {
+        case 'remote':
+          return {
+            outcome: 'resolved',
+            item: { ...remote, vectorClock, syncStatus: 'synced', base: remote.data },
+          };
+
+        case 'manual':
+          // Keep the local clock, so the pair is still concurrent once a human decides
+          return {
+            outcome: 'manual',
+            item: { ...local, syncStatus: 'conflict' },
+            conflict: {
+              kind: 'conflict',
+              id: `${store}/${local.id}`,
+              store,
+              entityId: local.id,
+              localVersion: local,
+              remoteVersion: remote,
+              base: local.base,
+              resolution: 'manual',
+              detectedAt: this.clock.now(),
+            },
+          };
+      }
+
+      // Local or merged data wins: record that it supersedes both histories
+      return {
+        outcome: 'resolved',
+        item: {
+          ...local,
+          data: decision.resolution === 'merged' ? decision.data : local.data,
+          version: Math.max(local.version, remote.version) + 1,
+          deviceId: this.deviceId,
+          timestamp: this.clock.now(),
+          vectorClock: increment(vectorClock, this.deviceId),
+          syncStatus: 'pending',
+          // Deltas are built against `base`, so it carries the version it came with
+          base: remote.data,
+          serverVersion: remote.serverVersion,
+        },
+      };
+    }
+
+    // Remote is causally newer (or identical): fast-forward
+    return { outcome: 'fast-forward', item: { ...remote, syncStatus: 'synced', base: remote.data } };
+  }
+
+  private runConflictResolver<T>(
+    store: string,
     local: DataItem<T>,
     remote: DataItem<T>
-  ): DataItem<T> {
-    // Store-specific merge strategies
-    switch (store) {
-      case 'orders':
-        // Orders are append-only, keep both (shouldn't happen with UUIDs)
-        return local;
+  ): ConflictResolution<T> {
+    // Delete-vs-edit races have no fields to merge
+    const resolver =
+      isTombstone(local) !== isTombstone(remote)
+        ? lastWriteWins
+        : this.conflictResolvers.get(store) ?? this.defaultConflictResolver;
+
+    return (resolver as ConflictResolver<T>)({ store, local, remote, base: local.base });
+  }
 
-      case 'inventory':
-        // Server wins for inventory, apply local decrements
-        return remote;
+  // ==================== Conflict Review ====================
 
-      case 'products':
-        // Server authoritative
-        return remote;
+  /**
+   * Everything waiting for a human: parked conflicts and dead-lettered writes
+   */
+  async listConflicts(): Promise<ConflictEntry[]> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      const request = this.db!.transaction('conflicts', 'readonly')
+        .objectStore('conflicts')
+        .getAll();
+
+      // Dead letters written before entries were tagged have no `kind`
+      request.onsuccess = () =>
+        resolve(
+          request.result.map((entry) => (entry.kind ? entry : { ...entry, kind: 'dead-letter' }))
+        );
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  /**
+   * Settle a parked conflict with the data the user picked. The result
+   * supersedes both versions and is queued for sync.
+   */
+  async resolveManualConflict<T>(conflictId: string, data: T): Promise<DataItem<T>> {
+    if (!this.db) throw new Error('Database not initialized');
 
-      default:
-        // Last-write-wins
-        return local.timestamp > remote.timestamp ? local : remote;
+    let conflict!: SyncConflict<T>;
+    let item!: DataItem<T>;
+
+    await this.executeMultiStoreTransaction(['conflicts'], 'readonly', (stores, abort) => {
+      const request = stores.get('conflicts')!.get(conflictId);
+      request.onerror = () => abort(request.error);
+      request.onsuccess = () => {
+        if (request.result?.kind !== 'conflict') {
+          abort(new Error(`Conflict not found: ${conflictId}`));
+          return;
+        }
+        conflict = request.result;
+      };
+    });
+
+    const { store, entityId, remoteVersion } = conflict;
+
+    if (isCollectionName(store)) {
+      validateRecord(store, data);
+    }
+
+    const storeNames = [store, 'conflicts', 'syncQueue'];
+
+    await this.executeMultiStoreTransaction(storeNames, 'readwrite', (stores, abort) => {
+      const objectStore = stores.get(store)!;
+      const request = objectStore.get(entityId);
+
+      request.onerror = () => abort(request.error);
+      request.onsuccess = () => {
+        const local: DataItem<T> = request.result ?? conflict.localVersion;
+        const vectorClock = mergeClocks(local.vectorClock, remoteVersion.vectorClock);
+
+        item = {
+          id: entityId,
+          data,
+          version: Math.max(local.version, remoteVersion.version) + 1,
+          deviceId: this.deviceId,
+          timestamp: this.clock.now(),
+          vectorClock: increment(vectorClock, this.deviceId),
+          syncStatus: 'pending',
+          base: remoteVersion.data,
+          serverVersion: remoteVersion.serverVersion,
+        };
+
+        objectStore.put(item);
+        const write = this.createWriteOperation(store, 'put', { id: entityId, data });
+        this.enqueueWrite(stores.get('syncQueue')!, write, abort);
+        stores.get('conflicts')!.delete(conflictId);
+      };
+    });
+
+    this.updateCache(store, entityId, item);
+    this.notifyListeners(store, item);
+    this.notifyListeners('conflicts', { id: conflictId, deleted: true });
+
+    if (this.isOnline) {
+      this.scheduleQueuedWrites();
+    }
+
+    return item;
+  }
+
+  /**
+   * Move a dead-lettered write back onto the sync queue with fresh retries
+   */
+  async retryDeadLetter(id: string): Promise<void> {
+    let retried: DeadLetter | null = null;
+
+    await this.executeMultiStoreTransaction(['conflicts', 'syncQueue'], 'readwrite', (stores, abort) => {
+      const conflicts = stores.get('conflicts')!;
+      const request = conflicts.get(id);
+
+      request.onerror = () => abort(request.error);
+      request.onsuccess = () => {
+        const entry = request.result;
+        if (!entry || entry.kind === 'conflict') {
+          abort(new Error(`Dead letter not found: ${id}`));
+          return;
+        }
+        retried = entry;
+
+        const now = this.clock.now();
+
+        // Keeps its idempotency key and place: the server may have applied an earlier attempt
+        const operation: WriteOperation = {
+          id: entry.id,
+          store: entry.store,
+          operation: entry.operation,
+          data: entry.data,
+          timestamp: now,
+          retryCount: 0,
+          idempotencyKey: entry.idempotencyKey ?? entry.id,
+          sequence: entry.sequence ?? entry.timestamp,
+          nextAttemptAt: now,
+          lastAttemptAt: entry.lastAttemptAt ?? entry.failedAt ?? now,
+        };
+
+        stores.get('syncQueue')!.put(operation);
+        conflicts.delete(id);
+      };
+    });
+
+    this.notifyListeners('conflicts', { id, deleted: true });
+
+    const entry = retried as DeadLetter | null;
+    if (entry?.data?.id !== undefined) {
+      await this.releaseRejectedRecord(entry.store, entry.data.id);
+    }
+
+    if (this.isOnline) {
+      this.scheduleQueuedWrites();
     }
   }
 
+  /**
+   * Put a record parked by `recordRejectedWrite` back to `pending`, unless
+   * it is waiting on a manual conflict
+   */
+  private async releaseRejectedRecord(store: string, id: string): Promise<void> {
+    let released: DataItem | null = null;
+
+    await this.executeMultiStoreTransaction([store, 'conflicts'], 'readwrite', (stores, abort) => {
+      const records = stores.get(store)!;
+      const request = records.get(id);
+
+      request.onerror = () => abort(request.error);
+      request.onsuccess = () => {
+        const item: DataItem | undefined = request.result;
+        if (item?.syncStatus !== 'conflict') return;
+
+        const manual = stores.get('conflicts')!.get(`${store}/${id}`);
+        manual.onerror = () => abort(manual.error);
+        manual.onsuccess = () => {
+          if (manual.result) return;
+          released = { ...item, syncStatus: 'pending' };
+          records.put(released);
+        };
+      };
+    });
+
+    const item = released as DataItem | null;
+    if (item && !isTombstone(item)) {
+      this.updateCache(store, id, item);
+      this.notifyListeners(store, item);
+    }
+  }
+
+  /**
+   * Drop a dead-lettered write for good
+   */
+  async discardDeadLetter(id: string): Promise<void> {
+    await this.executeTransaction('conflicts', 'readwrite', (objectStore) => {
+      objectStore.delete(id);
+    });
+
+    this.notifyListeners('conflicts', { id, deleted: true });
+  }
+
+  // ==================== Push Results ====================
+
+  /**
+   * Record that the server stored `id` as `serverVersion`. Pass the copy
+   * that was pushed: if the record was edited meanwhile it stays pending,
+   * so the newer edit is pushed too, on top of the pushed copy as its base.
+   */
+  async markSynced(
+    store: string,
+    id: string,
+    serverVersion?: number,
+    pushed?: DataItem
+  ): Promise<DataItem | null> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    let item: DataItem | null = null;
+
+    await this.executeTransaction(store, 'readwrite', (objectStore) => {
+      const request = objectStore.get(id);
+      request.onsuccess = () => {
+        const local: DataItem | undefined = request.result;
+        if (!local) return;
+
+        const unchanged =
+          local.syncStatus === 'pending' &&
+          (!pushed || compareClocks(local.vectorClock, pushed.vectorClock) === 'equal');
+        // Responses can arrive out of order; server versions only grow
+        const newer = serverVersion !== undefined && serverVersion >= (local.serverVersion ?? 0);
+
+        item = {
+          ...local,
+          // `base` is what the server holds as `serverVersion`, for merges and deltas
+          ...(newer && { serverVersion, ...(pushed && { base: pushed.data }) }),
+          ...(unchanged && { syncStatus: 'synced' as const, base: local.data }),
+        };
+        objectStore.put(item);
+      };
+    });
+
+    if (item && !isTombstone(item)) {
+      this.updateCache(store, id, item);
+      this.notifyListeners(store, item);
+    }
+
+    return item;
+  }
+
+  /**
+   * Keep a write the server refused for good as a dead letter, so it shows
+   * up for review instead of silently staying unsynced. The record leaves
+   * `pending` until the dead letter is retried, so it is not pushed again.
+   */
+  async recordRejectedWrite(store: string, id: string, reason: string): Promise<void> {
+    const now = this.clock.now();
+    let deadLetter: DeadLetter | null = null;
+    let parked: DataItem | null = null;
+
+    await this.executeMultiStoreTransaction([store, 'conflicts'], 'readwrite', (stores, abort) => {
+      const records = stores.get(store)!;
+      const request = records.get(id);
+
+      request.onerror = () => abort(request.error);
+      request.onsuccess = () => {
+        const item: DataItem | undefined = request.result;
+        const write = item && isTombstone(item)
+          ? this.createDeleteOperation(store, item)
+          : this.createWriteOperation(store, 'put', { id, data: item?.data });
+
+        deadLetter = { ...write, lastAttemptAt: now, kind: 'dead-letter', error: reason, failedAt: now };
+        stores.get('conflicts')!.put(deadLetter);
+
+        if (item?.syncStatus === 'pending') {
+          parked = { ...item, syncStatus: 'conflict' };
+          records.put(parked);
+        }
+      };
+    });
+
+    const item = parked as DataItem | null;
+    if (item && !isTombstone(item)) {
+      this.updateCache(store, id, item);
+      this.notifyListeners(store, item);
+    }
+    this.notifyListeners('conflicts', deadLetter);
+    this.syncLog.record({
+      event: 'dead-letter',
+      entity: store,
+      ids: [id],
+      error: reason,
+      message: 'Write rejected by the server',
+    });
+  }
+
+  // ==================== Tombstones ====================
+
+  /**
+   * Record that the server accepted a delete
+   */
+  async acknowledgeDelete(store: string, id: string): Promise<void> {
+    await this.executeTransaction(store, 'readwrite', (objectStore) => {
+      const request = objectStore.get(id);
+      request.onsuccess = () => {
+        const item: DataItem | undefined = request.result;
+        if (!item || !isTombstone(item)) return;
+
+        objectStore.put({
+          ...item,
+          syncStatus: 'synced',
+          acknowledgedBy: mergeAcknowledgements(item.acknowledgedBy, [SERVER_PEER]),
+        });
+      };
+    });
+  }
+
+  /**
+   * Physically remove tombstones that the server and every known peer have
+   * acknowledged. Returns the number of records removed.
+   */
+  async collectTombstones(): Promise<number> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const peers = [SERVER_PEER, ...(await this.getKnownPeers())];
+    const storeNames = this.getTombstoneStores();
+    let removed = 0;
+
+    for (const storeName of storeNames) {
+      await this.executeTransaction(storeName, 'readwrite', (objectStore) => {
+        const request = objectStore.index('deletedAt').openCursor();
+
+        request.onsuccess = () => {
+          const cursor = request.result;
+          if (!cursor) return;
+
+          const tombstone: DataItem = cursor.value;
+          const acknowledged = peers.every((peer) => tombstone.acknowledgedBy?.includes(peer));
+
+          if (tombstone.syncStatus === 'synced' && acknowledged) {
+            cursor.delete();
+            removed++;
+          }
+          cursor.continue();
+        };
+      });
+    }
+
+    if (removed > 0) {
+      console.log(`[DB] Garbage-collected ${removed} acknowledged tombstones`);
+    }
+    return removed;
+  }
+
+  private createTombstone(id: string, previous?: DataItem): DataItem {
+    return {
+      ...this.createItem(id, previous?.data ?? null, 'pending', previous),
+      deletedAt: this.clock.now(),
+      acknowledgedBy: [],
+    };
+  }
+
+  /**
+   * Remember which devices exist, so tombstones wait for all of them
+   */
+  private recordPeers(meta: IDBObjectStore, remoteItem: DataItem, abort: (error: unknown) => void): void {
+    const request = meta.get(PEERS_KEY);
+
+    request.onerror = () => abort(request.error);
+    request.onsuccess = () => {
+      const known: string[] = request.result?.deviceIds ?? [];
+      const seen = [remoteItem.deviceId, ...Object.keys(remoteItem.vectorClock)].filter(
+        (deviceId) => deviceId !== this.deviceId && deviceId !== SERVER_PEER
+      );
+      const deviceIds = mergeAcknowledgements(known, seen);
+
+      if (deviceIds.length !== known.length) {
+        meta.put({ id: PEERS_KEY, deviceIds });
+      }
+    };
+  }
+
+  private async getKnownPeers(): Promise<string[]> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      const request = this.db!.transaction(META_STORE, 'readonly')
+        .objectStore(META_STORE)
+        .get(PEERS_KEY);
+
+      request.onsuccess = () => resolve(request.result?.deviceIds ?? []);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  private getTombstoneStores(): string[] {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const names = Array.from(this.db.objectStoreNames);
+    const transaction = this.db.transaction(names, 'readonly');
+
+    return names.filter((name) => transaction.objectStore(name).indexNames.contains('deletedAt'));
+  }
+
+  /**
+   * Stores whose writes and deletes are replicated to the server
+   */
+  private isSyncedStore(store: string): boolean {
+    return this.registeredStores.get(store)?.sync !== false;
+  }
+
   // ==================== Cache Management ====================
 
   private getCached(store: string, id: string): DataItem | null {
@@ -473,7 +1868,7 @@ export class OfflineDataStore {
     this.cache.get(store)!.set(id, item);
 
     // Auto-expire cache
-    setTimeout(() => {
+    this.clock.setTimeout(() => {
       this.cache.get(store)?.delete(id);
     }, this.cacheTimeout);
   }
@@ -501,6 +1896,11 @@ export class OfflineDataStore {
   }
 
   private notifyListeners(store: string, data: any): void {
+    this.dispatchToListeners(store, data);
+    this.coordinator.publish(STORE_CHANGED_TOPIC, { store, data });
+  }
+
+  private dispatchToListeners(store: string, data: unknown): void {
     const callbacks = this.listeners.get(store);
     if (callbacks) {
       callbacks.forEach((cb) => cb(data));
@@ -510,16 +1910,45 @@ export class OfflineDataStore {
   // ==================== Background Sync ====================
 
   private startBackgroundSync(): void {
-    // Process queue every 30 seconds
-    setInterval(() => {
-      if (this.isOnline) {
-        this.processQueuedWrites();
+    if (this.backgroundSyncTimer) return;
+
+    // Process queue every 30 seconds (followers leave it to the leader tab)
+    this.backgroundSyncTimer = this.clock.setInterval(() => {
+      if (this.isOnline && this.coordinator.isLeader()) {
+        this.scheduleQueuedWrites();
       }
     }, 30000);
   }
 
   // ==================== Helper Methods ====================
 
+  /**
+   * Next local version of a record: bumps the version and this device's
+   * counter on top of the previous clock, so causal history is preserved.
+   */
+  private createItem<T>(
+    id: string,
+    data: T,
+    syncStatus: DataItem['syncStatus'],
+    previous?: DataItem
+  ): DataItem<T> {
+    return {
+      id,
+      data,
+      version: (previous?.version ?? 0) + 1,
+      deviceId: this.deviceId,
+      timestamp: this.clock.now(),
+      vectorClock: increment(previous?.vectorClock ?? {}, this.deviceId),
+      syncStatus,
+      base: syncStatus === 'synced' ? data : this.lastSyncedData(previous),
+      ...(previous?.serverVersion !== undefined && { serverVersion: previous.serverVersion }),
+    };
+  }
+
+  private lastSyncedData<T>(previous?: DataItem<T>): T | undefined {
+    return previous?.syncStatus === 'synced' ? previous.data : previous?.base;
+  }
+
   private async getFromDB<T>(store: string, id: string): Promise<DataItem<T> | null> {
     if (!this.db) throw new Error('Database not initialized');
 
@@ -541,13 +1970,67 @@ export class OfflineDataStore {
     return this.isOnline;
   }
 
+  getStorageAdapter(): StorageAdapter {
+    return this.adapter;
+  }
+
+  /**
+   * Send queued writes through `transport` from now on, e.g. an
+   * `HttpTransport` pointed at another base URL
+   */
+  setTransport(transport: SyncTransport): void {
+    this.transport = transport;
+  }
+
+  /**
+   * Compound-key prefix range built with this store's key range implementation
+   */
+  prefixRange(prefix: IDBValidKey[]): IDBKeyRange {
+    return prefixRange(prefix, this.adapter.keyRange);
+  }
+
   async close(): Promise<void> {
+    if (this.backgroundSyncTimer) {
+      this.clock.clearInterval(this.backgroundSyncTimer);
+      this.backgroundSyncTimer = null;
+    }
+    this.cancelQueueRetry();
+    this.unsubscribeNetwork?.();
+    this.unsubscribeNetwork = null;
+    this.unsubscribeTabs.forEach((unsubscribe) => unsubscribe());
+    this.unsubscribeTabs = [];
+    await this.syncLog.flush().catch(() => undefined);
     if (this.db) {
       this.db.close();
       this.db = null;
     }
+    this.initPromise = null;
   }
 }
 
+/**
+ * Key range matching every compound key that starts with `prefix`,
+ * e.g. `prefixRange(['pending'])` on the `statusCreatedAt` index.
+ */
+export function prefixRange(
+  prefix: IDBValidKey[],
+  keyRange: typeof IDBKeyRange = IDBKeyRange
+): IDBKeyRange {
+  // Arrays sort after every other key type, so `[]` is an upper bound for any suffix
+  return keyRange.bound(prefix, [...prefix, []]);
+}
+
+function syncCursorKey(store: string): string {
+  return `syncCursor:${store}`;
+}
+
+function isTombstone(item: DataItem): boolean {
+  return item.deletedAt !== undefined;
+}
+
+function mergeAcknowledgements(...lists: Array<string[] | undefined>): string[] {
+  return Array.from(new Set(lists.flatMap((list) => list ?? [])));
+}
+
 // Export singleton instance
-export const offlineStore = new OfflineDataStore();
+export const offlineStore = new OfflineDataStore({ coordinator: tabCoordinator });
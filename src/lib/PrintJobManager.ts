@@ -8,7 +8,8 @@
  * 4. Format templates for different receipt types
  */
 
-import { offlineStore } from './OfflineDataStore';
+import { offlineStore, type DataItem } from './OfflineDataStore';
+import { tabCoordinator } from './tabCoordinator';
 
 // Types
 export type PrintDestination = 'receipt' | 'kitchen' | 'bar';
@@ -106,6 +107,10 @@ class PriorityQueue<T extends { priority: number }> {
   }
 }
 
+// Printers are driven by the leader tab only; other tabs hand jobs over
+const PRINT_SCHEDULE_TOPIC = 'print:schedule';
+const PRINT_CANCEL_TOPIC = 'print:cancel';
+
 // ESC/POS Commands
 const ESC = '\x1B';
 const GS = '\x1D';
@@ -131,9 +136,20 @@ export class PrintJobManager {
   private printers: Map<string, PrinterConfig> = new Map();
   private listeners: Set<(job: PrintJob) => void> = new Set();
   private initialized = false;
+  private readonly jobStore = offlineStore.collection('printJobs');
 
   constructor() {
+    offlineStore.registerStore({
+      name: 'printJobs',
+      indexes: [
+        { name: 'status', keyPath: 'data.status' },
+        { name: 'createdAt', keyPath: 'data.createdAt' },
+        { name: 'printerAddress', keyPath: 'data.printerAddress' },
+      ],
+      sync: false, // Print jobs are device-local
+    });
     this.loadPrinters();
+    this.setupTabListeners();
   }
 
   async init(): Promise<void> {
@@ -141,7 +157,9 @@ export class PrintJobManager {
 
     // Load persisted print jobs
     await offlineStore.init();
-    await this.loadPersistedJobs();
+    if (tabCoordinator.isLeader()) {
+      await this.resumePersistedJobs();
+    }
 
     // Start background processor
     this.startBackgroundProcessor();
@@ -149,6 +167,28 @@ export class PrintJobManager {
     this.initialized = true;
   }
 
+  private setupTabListeners(): void {
+    tabCoordinator.on<PrintJob>(PRINT_SCHEDULE_TOPIC, (job) => {
+      if (tabCoordinator.isLeader()) this.schedule(job);
+    });
+
+    tabCoordinator.on<string>(PRINT_CANCEL_TOPIC, (jobId) => {
+      if (tabCoordinator.isLeader()) this.removeFromQueues(jobId);
+    });
+
+    tabCoordinator.onLeadershipChange((isLeader) => {
+      // Take over whatever the previous leader had not printed yet
+      if (isLeader && this.initialized) this.resumePersistedJobs();
+    });
+
+    // Followers learn about job progress from the leader's writes
+    offlineStore.subscribe('printJobs', (item: DataItem<PrintJob> | { deleted: true }) => {
+      if (!tabCoordinator.isLeader() && 'data' in item) {
+        this.notifyListeners(item.data);
+      }
+    });
+  }
+
   // ==================== Printer Management ====================
 
   async registerPrinter(config: PrinterConfig): Promise<void> {
@@ -200,6 +240,26 @@ export class PrintJobManager {
     data: any,
     priority: number = 5
   ): Promise<string> {
+    const job = this.createJob(destination, type, data, priority);
+
+    // Persist job
+    await this.jobStore.put(job.id, job);
+
+    this.schedule(job);
+
+    return job.id;
+  }
+
+  /**
+   * Build a job without persisting it, e.g. to write it inside a unit of work.
+   * Call `schedule()` once the job has been committed.
+   */
+  createJob(
+    destination: PrintDestination,
+    type: PrintJob['type'],
+    data: PrintJob['data'],
+    priority: number = 5
+  ): PrintJob {
     const printers = this.getPrintersByDestination(destination);
 
     if (printers.length === 0) {
@@ -209,7 +269,7 @@ export class PrintJobManager {
     // Use first available printer (could implement load balancing)
     const printer = printers[0];
 
-    const job: PrintJob = {
+    return {
       id: crypto.randomUUID(),
       destination,
       type,
@@ -222,22 +282,26 @@ export class PrintJobManager {
       maxRetries: 3,
       createdAt: Date.now(),
     };
+  }
 
-    // Persist job
-    await offlineStore.put('printJobs', job.id, job);
+  /**
+   * Queue an already persisted job for printing
+   */
+  schedule(job: PrintJob): void {
+    if (!tabCoordinator.isLeader()) {
+      tabCoordinator.publish(PRINT_SCHEDULE_TOPIC, job);
+      return;
+    }
 
-    // Add to queue
-    const queue = this.getQueue(printer.address);
+    const queue = this.getQueue(job.printerAddress);
     queue.insert(job);
 
     // Process queue (fire-and-forget)
-    this.processQueue(printer.address);
-
-    return job.id;
+    this.processQueue(job.printerAddress);
   }
 
   async getJob(jobId: string): Promise<PrintJob | null> {
-    const item = await offlineStore.get<PrintJob>('printJobs', jobId);
+    const item = await this.jobStore.get(jobId);
     return item?.data || null;
   }
 
@@ -246,15 +310,15 @@ export class PrintJobManager {
     if (!job) return;
 
     // Remove from queue
-    const queue = this.getQueue(job.printerAddress);
-    const items = queue.getAll().filter((j) => j.id !== jobId);
-    queue.clear();
-    items.forEach((j) => queue.insert(j));
+    this.removeFromQueues(jobId);
+    if (!tabCoordinator.isLeader()) {
+      tabCoordinator.publish(PRINT_CANCEL_TOPIC, jobId);
+    }
 
     // Update status
     job.status = 'failed';
     job.error = 'Cancelled by user';
-    await offlineStore.put('printJobs', job.id, job);
+    await this.jobStore.put(job.id, job);
   }
 
   async retryJob(jobId: string): Promise<void> {
@@ -264,11 +328,9 @@ export class PrintJobManager {
     job.status = 'pending';
     job.retryCount = 0;
     job.error = undefined;
-    await offlineStore.put('printJobs', job.id, job);
+    await this.jobStore.put(job.id, job);
 
-    const queue = this.getQueue(job.printerAddress);
-    queue.insert(job);
-    this.processQueue(job.printerAddress);
+    this.schedule(job);
   }
 
   // ==================== Queue Processing ====================
@@ -280,6 +342,14 @@ export class PrintJobManager {
     return this.queues.get(printerAddress)!;
   }
 
+  private removeFromQueues(jobId: string): void {
+    this.queues.forEach((queue) => {
+      const items = queue.getAll().filter((j) => j.id !== jobId);
+      queue.clear();
+      items.forEach((j) => queue.insert(j));
+    });
+  }
+
   private async processQueue(printerAddress: string): Promise<void> {
     if (this.activePrinters.has(printerAddress)) {
       return; // Already processing
@@ -294,14 +364,14 @@ export class PrintJobManager {
 
         try {
           job.status = 'printing';
-          await offlineStore.put('printJobs', job.id, job);
+          await this.jobStore.put(job.id, job);
           this.notifyListeners(job);
 
           await this.printJob(job);
 
           job.status = 'completed';
           job.completedAt = Date.now();
-          await offlineStore.put('printJobs', job.id, job);
+          await this.jobStore.put(job.id, job);
           this.notifyListeners(job);
         } catch (error: any) {
           await this.handlePrintError(job, error, queue);
@@ -323,7 +393,7 @@ export class PrintJobManager {
       // Retry with lower priority
       job.priority = Math.max(1, job.priority - 1);
       job.status = 'pending';
-      await offlineStore.put('printJobs', job.id, job);
+      await this.jobStore.put(job.id, job);
 
       // Re-queue with exponential backoff
       const delay = 1000 * Math.pow(2, job.retryCount);
@@ -335,7 +405,7 @@ export class PrintJobManager {
       // Max retries exceeded
       job.status = 'failed';
       job.error = error.message || 'Unknown error';
-      await offlineStore.put('printJobs', job.id, job);
+      await this.jobStore.put(job.id, job);
       this.notifyListeners(job);
 
       console.error(`Print job ${job.id} failed after ${job.retryCount} retries:`, error);
@@ -525,17 +595,25 @@ export class PrintJobManager {
 
   // ==================== Persistence ====================
 
-  private async loadPersistedJobs(): Promise<void> {
+  /**
+   * Queue and start every unfinished job, skipping ones already queued
+   */
+  private async resumePersistedJobs(): Promise<void> {
     try {
-      const jobs = await offlineStore.query<PrintJob>('printJobs');
+      const jobs = await this.jobStore.all();
+      const queued = new Set(
+        Array.from(this.queues.values()).flatMap((queue) => queue.getAll().map((job) => job.id))
+      );
 
       jobs.forEach((item) => {
         const job = item.data;
-        if (job.status === 'pending' || job.status === 'printing') {
+        if ((job.status === 'pending' || job.status === 'printing') && !queued.has(job.id)) {
           const queue = this.getQueue(job.printerAddress);
           queue.insert(job);
         }
       });
+
+      this.queues.forEach((_, printerAddress) => this.processQueue(printerAddress));
     } catch (error) {
       console.error('Failed to load persisted print jobs:', error);
     }
@@ -546,18 +624,18 @@ export class PrintJobManager {
   private startBackgroundProcessor(): void {
     // Retry failed jobs every 5 minutes
     setInterval(() => {
-      this.retryFailedJobs();
+      if (tabCoordinator.isLeader()) this.retryFailedJobs();
     }, 5 * 60 * 1000);
 
     // Clean up old completed jobs
     setInterval(() => {
-      this.cleanupOldJobs();
+      if (tabCoordinator.isLeader()) this.cleanupOldJobs();
     }, 60 * 60 * 1000); // 1 hour
   }
 
   private async retryFailedJobs(): Promise<void> {
     try {
-      const jobs = await offlineStore.query<PrintJob>('printJobs');
+      const jobs = await this.jobStore.all();
 
       jobs.forEach((item) => {
         const job = item.data;
@@ -573,7 +651,7 @@ export class PrintJobManager {
   private async cleanupOldJobs(): Promise<void> {
     try {
       const cutoff = Date.now() - 24 * 60 * 60 * 1000; // 24 hours
-      const jobs = await offlineStore.query<PrintJob>('printJobs');
+      const jobs = await this.jobStore.all();
 
       jobs.forEach((item) => {
         const job = item.data;
@@ -582,7 +660,7 @@ export class PrintJobManager {
           job.completedAt &&
           job.completedAt < cutoff
         ) {
-          offlineStore.delete('printJobs', job.id);
+          this.jobStore.delete(job.id);
         }
       });
     } catch (error) {
@@ -619,7 +697,7 @@ export class PrintJobManager {
   }
 
   async getJobHistory(limit: number = 50): Promise<PrintJob[]> {
-    const jobs = await offlineStore.query<PrintJob>('printJobs');
+    const jobs = await this.jobStore.all();
     return jobs
       .map((item) => item.data)
       .sort((a, b) => b.createdAt - a.createdAt)
@@ -8,26 +8,84 @@
  * - Support partial sync for large datasets
  */
 
-import { offlineStore, type DataItem } from './OfflineDataStore';
+import {
+  offlineStore,
+  type ConflictEntry,
+  type DataItem,
+  type RemoteMergeResult,
+  type WriteOperation,
+} from './OfflineDataStore';
+import { deviceAuth, type DeviceAuthStatus } from './deviceAuth';
+import { fromWireFormat, toWireFormat } from './wireFormat';
+import {
+  ACCESS_TOKEN_PARAM,
+  CAPABILITIES_HEADER,
+  PROTOCOL_HEADER,
+  PROTOCOL_VERSION,
+  formatCapabilities,
+  parseBatchResponse,
+  parseCapabilities,
+  parseChangeFeed,
+  parseConflictResponse,
+  readProtocolError,
+  type ChangeEvent,
+  type SyncCapability,
+  type WireRecord,
+} from './protocol';
+import { CLIENT_CAPABILITIES, GZIP_MIN_BYTES, gzip, toWireDelta } from './payloadEncoding';
+import { RealtimeChannel, realtimeUrl, type RealtimeOptions } from './realtime';
+import { RequestPool, forEachConcurrently } from './requestPool';
+import { withSyncLock } from './syncLock';
+import type { SyncLogEntry } from './syncLog';
+import { tabCoordinator } from './tabCoordinator';
+
+export type { WireRecord } from './wireFormat';
 
 // Types
 export type SyncStatus = 'idle' | 'syncing' | 'success' | 'error';
 export type EntityType = 'products' | 'orders' | 'inventory';
+export type SyncDirection = 'push' | 'pull' | 'bidirectional';
 
 export interface SyncState {
   status: SyncStatus;
   lastSync: number | null;
   lastError: string | null;
-  itemsSynced: number;
+  itemsSynced: number; // Pushed and pulled so far this run
+  itemsTotal: number | null; // Null until the server has said how much there is to pull
   itemsPending: number;
+  bytesTransferred: number; // Request and response bodies this run
+  throughput: number; // Bytes per second over this run
+  eta: number | null; // Estimated ms left, null while unknown
   progress: number; // 0-100
 }
 
 export interface SyncOptions {
   fullSync?: boolean; // Force full sync instead of delta
   entities?: EntityType[]; // Limit sync to specific entities
-  batchSize?: number; // Items per batch
-  priority?: EntityType[]; // Sync priority order
+  batchSize?: number; // Items per batch, instead of each entity's policy
+  priority?: EntityType[]; // Synced first, ahead of their policy priority
+}
+
+/**
+ * How and how often one entity syncs
+ */
+export interface SyncPolicy {
+  direction: SyncDirection;
+  interval: number; // Auto sync period in ms
+  priority: number; // Lower goes first when requests compete for a slot
+  batchSize: number; // Items per push batch and pull page
+  parallelism: number; // Push batches in flight at once
+}
+
+// What the current run of one entity has moved, behind its SyncState
+interface EntityProgress {
+  startedAt: number;
+  pushTotal: number;
+  pushed: number;
+  pullTotal: number | null; // Unknown until a page reports what remains
+  pulled: number;
+  bytes: number;
+  signal: AbortSignal; // Aborted by cancelSync or revocation
 }
 
 export interface ChangeDetectionResult {
@@ -44,36 +102,106 @@ export interface SyncConflict {
   resolution: 'local' | 'remote' | 'manual';
 }
 
+/**
+ * Everything support needs to reconstruct what sync did on this device
+ */
+export interface DiagnosticsBundle {
+  generatedAt: string;
+  deviceId: string;
+  tabId: string;
+  isLeader: boolean;
+  online: boolean;
+  userAgent: string;
+  syncState: Record<EntityType, SyncState>;
+  cursors: Record<EntityType, string | null>;
+  serverCapabilities: SyncCapability[];
+  queuedWrites: WriteOperation[];
+  conflicts: ConflictEntry[];
+  log: SyncLogEntry[];
+}
+
+export type RealtimeSubscriptionOptions = Partial<
+  Pick<RealtimeOptions, 'createSocket' | 'pollInterval' | 'clock' | 'network'>
+> & {
+  url?: string; // The device's access token is added on every connect
+};
+
 // API Configuration
 const API_BASE_URL = '/api/v1';
 const SYNC_INTERVAL = 30000; // 30 seconds
+const AUTO_SYNC_TICK = 1000; // How often due entities are looked for
 const BATCH_SIZE = 50;
 const MAX_PARALLEL_REQUESTS = 3;
+const ENTITIES: EntityType[] = ['products', 'orders', 'inventory'];
+const SYNC_DIRECTIONS: SyncDirection[] = ['push', 'pull', 'bidirectional'];
+
+// Orders push first and often; the catalog refreshes rarely, in big pages
+const DEFAULT_SYNC_POLICIES: Record<EntityType, SyncPolicy> = {
+  orders: {
+    direction: 'bidirectional',
+    interval: 10000,
+    priority: 0,
+    batchSize: BATCH_SIZE,
+    parallelism: 2,
+  },
+  inventory: {
+    direction: 'bidirectional',
+    interval: SYNC_INTERVAL,
+    priority: 1,
+    batchSize: 100,
+    parallelism: 1,
+  },
+  products: {
+    direction: 'bidirectional',
+    interval: 300000, // 5 minutes
+    priority: 2,
+    batchSize: 200,
+    parallelism: 1,
+  },
+};
+const SYNC_REQUEST_TOPIC = 'sync:request';
+const SYNC_CANCEL_TOPIC = 'sync:cancel';
+const SYNC_STATE_TOPIC = 'sync:state';
+const PENDING_COUNT_DELAY = 250; // Coalesces bursts of local writes
+const PROTOCOL_HEADERS = { [PROTOCOL_HEADER]: String(PROTOCOL_VERSION) };
 
 export class SyncEngine {
   private syncState: Map<EntityType, SyncState> = new Map();
   private listeners: Set<(state: Map<EntityType, SyncState>) => void> = new Set();
-  private syncInProgress = false;
+  private policies: Map<EntityType, SyncPolicy> = new Map();
+  private syncing: Set<EntityType> = new Set();
+  private lastAttempt: Map<EntityType, number> = new Map();
+  private runs: Map<EntityType, EntityProgress> = new Map();
+  private pendingCountTimers: Map<EntityType, number> = new Map();
+  private requests = new RequestPool(MAX_PARALLEL_REQUESTS);
+  private serverCapabilities: Set<SyncCapability> = new Set(); // Learned from every response
   private autoSyncTimer: number | null = null;
   private abortController: AbortController | null = null;
+  private realtime: RealtimeChannel | null = null;
+  private realtimeOptions: RealtimeSubscriptionOptions | null = null;
 
   constructor() {
     this.initializeSyncState();
     this.setupEventListeners();
+    this.setupTabListeners();
+    this.setupAuthListener();
   }
 
   // ==================== Initialization ====================
 
   private initializeSyncState(): void {
-    const entities: EntityType[] = ['products', 'orders', 'inventory'];
-
-    entities.forEach((entity) => {
+    ENTITIES.forEach((entity) => {
+      this.policies.set(entity, { ...DEFAULT_SYNC_POLICIES[entity] });
       this.syncState.set(entity, {
         status: 'idle',
         lastSync: this.getLastSyncTimestamp(entity),
         lastError: null,
         itemsSynced: 0,
+        itemsTotal: null,
         itemsPending: 0,
+        bytesTransferred: 0,
+        throughput: 0,
+        eta: null,
         progress: 0,
       });
     });
@@ -86,17 +214,86 @@ export class SyncEngine {
       this.sync({ fullSync: false });
     });
 
-    // Listen to data changes
-    offlineStore.subscribe('orders', () => {
-      this.updatePendingCount('orders');
+    // Keep every entity's pending count current as data changes
+    ENTITIES.forEach((entity) => {
+      offlineStore.subscribe(entity, () => this.schedulePendingCount(entity));
+    });
+  }
+
+  /**
+   * Only the leader tab talks to the server. Followers hand their requests
+   * to it and mirror the sync state it publishes.
+   */
+  private setupTabListeners(): void {
+    tabCoordinator.on<SyncOptions>(SYNC_REQUEST_TOPIC, (options) => {
+      if (tabCoordinator.isLeader()) this.sync(options);
+    });
+
+    tabCoordinator.on(SYNC_CANCEL_TOPIC, () => {
+      if (tabCoordinator.isLeader()) this.cancelSync();
+    });
+
+    tabCoordinator.on<Array<[EntityType, SyncState]>>(SYNC_STATE_TOPIC, (states) => {
+      if (tabCoordinator.isLeader()) return;
+      this.syncState = new Map(states);
+      this.notifyListeners();
+    });
+
+    tabCoordinator.onLeadershipChange((isLeader) => {
+      if (isLeader) {
+        this.connectRealtime();
+        // Leadership is granted asynchronously: the initial sync may have gone to no tab
+        if (this.autoSyncTimer) this.sync({ fullSync: false });
+      } else {
+        this.disconnectRealtime();
+      }
+    });
+  }
+
+  /**
+   * Only an enrolled device syncs. Revocation stops sync on the spot;
+   * enrolling again starts it back up.
+   */
+  private setupAuthListener(): void {
+    let previous: DeviceAuthStatus = deviceAuth.getStatus();
+
+    deviceAuth.subscribe((status) => {
+      // Reading the stored credentials at startup is no change; auto sync covers that
+      const startup = previous === 'loading';
+      previous = status;
+
+      if (status === 'enrolled') {
+        this.connectRealtime();
+        if (!startup && tabCoordinator.isLeader()) {
+          this.sync({ fullSync: false });
+          offlineStore.flushQueuedWrites().catch((error) => console.error('[SYNC] Queue flush failed:', error));
+        }
+        return;
+      }
+
+      this.disconnectRealtime();
+
+      if (status === 'revoked' && tabCoordinator.isLeader()) {
+        this.abortRuns();
+        offlineStore.syncLog.record({
+          event: 'error',
+          message: 'Device revoked by the server; sync stopped until it enrolls again',
+        });
+      }
     });
   }
 
   // ==================== Main Sync Methods ====================
 
+  /**
+   * Sync the requested entities concurrently, each by its policy. Entities
+   * already syncing are left to the run that has them. Requests share
+   * `MAX_PARALLEL_REQUESTS` slots, handed out by priority.
+   */
   async sync(options: SyncOptions = {}): Promise<void> {
-    if (this.syncInProgress) {
-      console.log('[SYNC] Sync already in progress, skipping...');
+    if (!tabCoordinator.isLeader()) {
+      console.log('[SYNC] Another tab leads, forwarding sync request');
+      tabCoordinator.publish(SYNC_REQUEST_TOPIC, options);
       return;
     }
 
@@ -105,52 +302,107 @@ export class SyncEngine {
       return;
     }
 
-    this.syncInProgress = true;
-    this.abortController = new AbortController();
+    const authStatus = await deviceAuth.ready();
+    if (authStatus !== 'enrolled') {
+      console.log(`[SYNC] Device is ${authStatus}, skipping sync`);
+      return;
+    }
+
+    const requested = options.entities || ENTITIES;
+    const entities = requested.filter((entity) => !this.syncing.has(entity));
+
+    if (entities.length === 0) {
+      console.log('[SYNC] Sync already in progress, skipping...');
+      return;
+    }
 
-    const entities = options.entities || ['products', 'inventory', 'orders'];
-    const batchSize = options.batchSize || BATCH_SIZE;
+    const priorities = new Map(
+      entities.map((entity) => [entity, this.effectivePriority(entity, options)])
+    );
+    entities.sort((a, b) => priorities.get(a)! - priorities.get(b)!);
+
+    entities.forEach((entity) => this.syncing.add(entity));
+    const { signal } = (this.abortController ??= new AbortController());
 
     try {
-      for (const entity of entities) {
-        await this.syncEntity(entity, options.fullSync || false, batchSize);
+      const results = await Promise.allSettled(
+        entities.map((entity) => this.syncEntity(entity, options, priorities.get(entity)!, signal))
+      );
+
+      const failure = results.find((result) => result.status === 'rejected');
+      if (failure) {
+        throw failure.reason;
       }
 
-      console.log('[SYNC] All entities synced successfully');
-    } catch (error: any) {
+      // Never alongside a queue flush or the service worker's Background Sync
+      await withSyncLock(() => offlineStore.collectTombstones());
+
+      console.log(`[SYNC] Synced ${entities.join(', ')} successfully`);
+    } catch (error) {
       console.error('[SYNC] Sync failed:', error);
-      this.handleSyncError(error);
+      this.handleSyncError(error, entities);
     } finally {
-      this.syncInProgress = false;
-      this.abortController = null;
+      entities.forEach((entity) => this.syncing.delete(entity));
+      if (this.syncing.size === 0) {
+        this.abortController = null;
+      }
     }
   }
 
   private async syncEntity(
     entity: EntityType,
-    fullSync: boolean,
-    batchSize: number
+    options: SyncOptions,
+    priority: number,
+    signal: AbortSignal
   ): Promise<void> {
-    console.log(`[SYNC] Starting sync for ${entity}`);
-
+    const policy = this.getSyncPolicy(entity);
+    const batchSize = options.batchSize || policy.batchSize;
+
+    console.log(`[SYNC] Starting ${policy.direction} sync for ${entity}`);
+    this.lastAttempt.set(entity, Date.now());
+
+    this.runs.set(entity, {
+      startedAt: Date.now(),
+      pushTotal: 0,
+      pushed: 0,
+      pullTotal: policy.direction === 'push' ? 0 : null,
+      pulled: 0,
+      bytes: 0,
+      signal,
+    });
     this.updateSyncState(entity, {
       status: 'syncing',
       itemsSynced: 0,
+      itemsTotal: null,
+      bytesTransferred: 0,
+      throughput: 0,
+      eta: null,
       progress: 0,
     });
 
     try {
-      // Step 1: Push local changes to server
-      await this.pushLocalChanges(entity, batchSize);
+      // Step 1: Push local changes to server. Holds the sync lock so the
+      // same writes are never sent by a queue flush or the service worker;
+      // shared, since other entities' pushes send other records
+      if (policy.direction !== 'pull') {
+        await withSyncLock(
+          () => this.pushLocalChanges(entity, batchSize, policy.parallelism, priority),
+          'shared'
+        );
+      }
 
       // Step 2: Pull remote changes from server
-      await this.pullRemoteChanges(entity, fullSync, batchSize);
+      if (policy.direction !== 'push') {
+        await this.pullRemoteChanges(entity, options.fullSync || false, batchSize, priority);
+      }
 
       // Step 3: Mark as complete
+      this.reportProgress(entity);
       this.updateSyncState(entity, {
         status: 'success',
         lastSync: Date.now(),
         lastError: null,
+        eta: 0,
         progress: 100,
       });
 
@@ -159,48 +411,69 @@ export class SyncEngine {
       this.updateSyncState(entity, {
         status: 'error',
         lastError: error.message,
+        eta: null,
         progress: 0,
       });
+      // Cancellations are logged when requested
+      if (error.message !== 'Sync cancelled') {
+        offlineStore.syncLog.record({
+          event: 'error',
+          entity,
+          error: error.message,
+          message: 'Sync failed',
+        });
+      }
       throw error;
+    } finally {
+      this.runs.delete(entity);
+      this.schedulePendingCount(entity);
     }
   }
 
   // ==================== Change Detection ====================
 
   async detectLocalChanges(entity: EntityType): Promise<ChangeDetectionResult> {
-    const lastSync = this.getLastSyncTimestamp(entity);
-    const allItems = await offlineStore.query<any>(entity);
-
     const created: string[] = [];
     const updated: string[] = [];
     const deleted: string[] = [];
 
-    allItems.forEach((item) => {
-      if (item.syncStatus === 'pending') {
-        if (item.timestamp > lastSync) {
-          if (item.data.isNew) {
-            created.push(item.id);
-          } else {
-            updated.push(item.id);
-          }
-        }
-      }
+    // Page through pending records only, instead of loading the whole store.
+    // No timestamp filter: edits made while a push was in flight are pending too.
+    const pendingItems = offlineStore.iterate<{ isNew?: boolean }>(entity, {
+      index: 'syncStatus',
+      range: 'pending',
+      includeDeleted: true,
     });
 
-    // Detect deletions (stored in sync queue)
-    const syncQueue = await offlineStore.query<any>('syncQueue');
+    for await (const item of pendingItems) {
+      if (item.deletedAt !== undefined) {
+        deleted.push(item.id);
+      } else if (item.data.isNew) {
+        created.push(item.id);
+      } else {
+        updated.push(item.id);
+      }
+    }
+
+    // Detect deletions still waiting in the sync queue
+    const syncQueue = await offlineStore.getQueuedWrites();
     syncQueue.forEach((op) => {
-      if (op.data.operation === 'delete' && op.data.store === entity) {
-        deleted.push(op.data.data.id);
+      if (op.operation === 'delete' && op.store === entity) {
+        deleted.push(op.data.id);
       }
     });
 
-    return { created, updated, deleted };
+    return { created, updated, deleted: Array.from(new Set(deleted)) };
   }
 
   // ==================== Push (Upload) ====================
 
-  private async pushLocalChanges(entity: EntityType, batchSize: number): Promise<void> {
+  private async pushLocalChanges(
+    entity: EntityType,
+    batchSize: number,
+    parallelism: number,
+    priority: number
+  ): Promise<void> {
     const changes = await this.detectLocalChanges(entity);
     const totalChanges = changes.created.length + changes.updated.length + changes.deleted.length;
 
@@ -211,13 +484,15 @@ export class SyncEngine {
 
     console.log(`[SYNC] Pushing ${totalChanges} changes for ${entity}`);
 
-    // Process in batches
+    const run = this.runs.get(entity)!;
+    run.pushTotal = totalChanges;
+    this.reportProgress(entity);
+
+    // Process in batches, up to `parallelism` in flight
     const allIds = [...changes.created, ...changes.updated];
     const batches = this.createBatches(allIds, batchSize);
 
-    let synced = 0;
-
-    for (const batch of batches) {
+    await forEachConcurrently(batches, parallelism, async (batch) => {
       const items = await Promise.all(
         batch.map(async (id) => {
           const item = await offlineStore.get(entity, id);
@@ -226,116 +501,230 @@ export class SyncEngine {
       );
 
       // Upload batch
-      await this.uploadBatch(entity, items.filter((i) => i !== null) as DataItem[]);
+      await this.uploadBatch(entity, items.filter((i) => i !== null) as DataItem[], priority);
 
-      synced += batch.length;
-      this.updateSyncState(entity, {
-        itemsSynced: synced,
-        progress: Math.floor((synced / totalChanges) * 50), // 0-50% for push
-      });
-    }
+      run.pushed += batch.length;
+      this.reportProgress(entity);
+    });
 
     // Handle deletions
-    for (const id of changes.deleted) {
-      await this.deleteRemote(entity, id);
-    }
+    await forEachConcurrently(changes.deleted, parallelism, async (id) => {
+      await this.deleteRemote(entity, id, priority);
+      run.pushed++;
+      this.reportProgress(entity);
+    });
   }
 
-  private async uploadBatch(entity: EntityType, items: DataItem[]): Promise<void> {
+  /**
+   * Push a batch. Updates go up as deltas once the server accepts them; any
+   * the server can no longer apply (its copy moved on) are resent in full.
+   */
+  private async uploadBatch(
+    entity: EntityType,
+    items: DataItem[],
+    priority: number,
+    encodeDeltas = this.serverCapabilities.has('delta')
+  ): Promise<void> {
+    const startedAt = Date.now();
+
     try {
-      const response = await fetch(`${API_BASE_URL}/${entity}/batch`, {
+      const { response, body } = await this.request(entity, priority, `/${entity}/batch`, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(items.map((i) => i.data)),
-        signal: this.abortController?.signal,
+        headers: { 'Content-Type': 'application/json', ...PROTOCOL_HEADERS },
+        body: JSON.stringify(items.map((i) => (encodeDeltas && toWireDelta(i)) || toWireFormat(i))),
       });
 
       if (!response.ok) {
-        throw new Error(`Upload failed: ${response.statusText}`);
+        throw this.toResponseError('Upload failed', response, body);
       }
 
-      const result = await response.json();
-
-      // Update sync status locally
-      for (const item of items) {
-        await offlineStore.put(entity, item.id, {
-          ...item.data,
-          syncStatus: 'synced',
-        });
+      const { results } = parseBatchResponse(
+        body,
+        items.map((item) => item.id)
+      );
+      const pushed = new Map(items.map((item) => [item.id, item]));
+      let accepted = 0;
+      let conflicts = 0;
+      let rejected = 0;
+      const stale: DataItem[] = [];
+
+      for (const result of results) {
+        switch (result.status) {
+          case 'accepted':
+            // Synced only if it was not edited while the batch was in flight
+            await offlineStore.markSynced(entity, result.id, result.version, pushed.get(result.id)!);
+            accepted++;
+            break;
+
+          case 'conflict':
+            // The server holds a version we have not seen: merge it like a pulled change
+            await this.mergeRemoteItem(entity, result.current);
+            conflicts++;
+            break;
+
+          case 'rejected':
+            if (result.error.code === 'base_mismatch') {
+              stale.push(pushed.get(result.id)!);
+              break;
+            }
+            console.warn(`[SYNC] Server rejected ${entity}/${result.id}: ${result.error.message}`);
+            await offlineStore.recordRejectedWrite(entity, result.id, result.error.message);
+            rejected++;
+            break;
+        }
       }
 
-      console.log(`[SYNC] Uploaded ${items.length} items for ${entity}`);
+      console.log(`[SYNC] Uploaded ${accepted}/${items.length} items for ${entity}`);
+      offlineStore.syncLog.record({
+        event: 'push',
+        entity,
+        ids: items.map((item) => item.id),
+        durationMs: Date.now() - startedAt,
+        level: conflicts + rejected > 0 ? 'warn' : 'info',
+        message: `Uploaded batch: ${accepted} accepted, ${conflicts} conflicts, ${rejected} rejected, ${stale.length} resent in full`,
+      });
+
+      if (stale.length > 0) {
+        console.log(`[SYNC] ${stale.length} ${entity} deltas were out of date, sending them in full`);
+        await this.uploadBatch(entity, stale, priority, false);
+      }
     } catch (error: any) {
       if (error.name === 'AbortError') {
         throw new Error('Sync cancelled');
       }
+      offlineStore.syncLog.record({
+        event: 'error',
+        entity,
+        ids: items.map((item) => item.id),
+        durationMs: Date.now() - startedAt,
+        error: error.message,
+        message: 'Batch upload failed',
+      });
       throw error;
     }
   }
 
-  private async deleteRemote(entity: EntityType, id: string): Promise<void> {
+  private async deleteRemote(entity: EntityType, id: string, priority: number): Promise<void> {
+    const startedAt = Date.now();
+
     try {
-      const response = await fetch(`${API_BASE_URL}/${entity}/${id}`, {
+      const tombstone = await offlineStore.get(entity, id, { includeDeleted: true });
+
+      const { response, body } = await this.request(entity, priority, `/${entity}/${id}`, {
         method: 'DELETE',
-        signal: this.abortController?.signal,
+        headers: { 'Content-Type': 'application/json', ...PROTOCOL_HEADERS },
+        body: tombstone ? JSON.stringify(toWireFormat(tombstone)) : undefined,
       });
 
+      if (response.status === 409) {
+        // Edited elsewhere since; let conflict resolution decide whether the delete stands
+        const { current } = parseConflictResponse(body);
+        await this.mergeRemoteItem(entity, current);
+        return;
+      }
+
       if (!response.ok && response.status !== 404) {
-        throw new Error(`Delete failed: ${response.statusText}`);
+        throw this.toResponseError('Delete failed', response, body);
       }
 
+      await offlineStore.acknowledgeDelete(entity, id);
+
       console.log(`[SYNC] Deleted ${entity}/${id} from server`);
+      offlineStore.syncLog.record({
+        event: 'push',
+        entity,
+        ids: [id],
+        durationMs: Date.now() - startedAt,
+        message: 'Deleted on server',
+      });
     } catch (error: any) {
       if (error.name === 'AbortError') {
         throw new Error('Sync cancelled');
       }
       console.error(`Failed to delete ${entity}/${id}:`, error);
+      offlineStore.syncLog.record({
+        event: 'error',
+        entity,
+        ids: [id],
+        durationMs: Date.now() - startedAt,
+        error: error.message,
+        message: 'Delete failed',
+      });
     }
   }
 
   // ==================== Pull (Download) ====================
 
+  /**
+   * Page through the entity's change feed from the stored server cursor.
+   * Each page is merged together with the cursor that follows it, so an
+   * interrupted pull resumes after the last stored page.
+   */
   private async pullRemoteChanges(
     entity: EntityType,
     fullSync: boolean,
-    batchSize: number
+    batchSize: number,
+    priority: number
   ): Promise<void> {
-    const lastSync = fullSync ? 0 : this.getLastSyncTimestamp(entity);
+    // Cursors are issued by the server, so device clock skew cannot skip changes
+    let cursor = fullSync ? null : await offlineStore.getSyncCursor(entity);
+    let hasMore = true;
+    const run = this.runs.get(entity)!;
 
-    console.log(`[SYNC] Pulling changes for ${entity} since ${new Date(lastSync).toISOString()}`);
+    const position = cursor ? `after cursor ${cursor}` : 'from the start';
+    console.log(`[SYNC] Pulling changes for ${entity} ${position}`);
 
     try {
-      // Fetch changes from server
-      const url = `${API_BASE_URL}/${entity}/changes?since=${lastSync}&limit=${batchSize}`;
-      const response = await fetch(url, {
-        signal: this.abortController?.signal,
-      });
-
-      if (!response.ok) {
-        throw new Error(`Fetch failed: ${response.statusText}`);
-      }
-
-      const data = await response.json();
-      const items: any[] = data.items || [];
-      const hasMore: boolean = data.hasMore || false;
-
-      console.log(`[SYNC] Received ${items.length} items for ${entity}`);
+      while (hasMore) {
+        const startedAt = Date.now();
+        const params = new URLSearchParams({ limit: String(batchSize) });
+        if (cursor) params.set('since', cursor);
+
+        // Fetch changes from server
+        const { response, body } = await this.request(
+          entity,
+          priority,
+          `/${entity}/changes?${params}`,
+          { headers: PROTOCOL_HEADERS }
+        );
+
+        if (!response.ok) {
+          throw this.toResponseError('Fetch failed', response, body);
+        }
 
-      // Process items and handle conflicts
-      let synced = 0;
-      for (const item of items) {
-        await this.mergeRemoteItem(entity, item);
-        synced++;
+        // Rejects the whole page before anything is merged
+        const page = parseChangeFeed(body);
+        if (page.hasMore && !page.cursor) {
+          throw new Error(`Change feed for ${entity} has more pages but no cursor`);
+        }
 
-        this.updateSyncState(entity, {
-          itemsSynced: synced,
-          progress: 50 + Math.floor((synced / items.length) * 50), // 50-100% for pull
+        console.log(`[SYNC] Received ${page.items.length} items for ${entity}`);
+
+        const results = await offlineStore.applyRemoteChanges(
+          entity,
+          page.items.map((item) => fromWireFormat(item)),
+          page.cursor
+        );
+        results.forEach((result) => this.logMergeOutcome(entity, result));
+        offlineStore.syncLog.record({
+          event: 'pull',
+          entity,
+          ids: page.items.map((item) => item.id),
+          durationMs: Date.now() - startedAt,
+          message: `Pulled ${page.items.length} changes up to cursor ${page.cursor ?? cursor ?? 'none'}`,
         });
-      }
 
-      // If there are more items, recursively fetch next batch
-      if (hasMore) {
-        await this.pullRemoteChanges(entity, false, batchSize);
+        cursor = page.cursor ?? cursor;
+        hasMore = page.hasMore;
+        run.pulled += page.items.length;
+
+        // Servers without `remaining` leave the total unknown until the last page
+        if (page.remaining !== undefined) {
+          run.pullTotal = run.pulled + page.remaining;
+        } else if (!hasMore) {
+          run.pullTotal = run.pulled;
+        }
+        this.reportProgress(entity);
       }
     } catch (error: any) {
       if (error.name === 'AbortError') {
@@ -345,65 +734,131 @@ export class SyncEngine {
     }
   }
 
-  private async mergeRemoteItem(entity: EntityType, remoteData: any): Promise<void> {
-    const localItem = await offlineStore.get(entity, remoteData.id);
+  private async mergeRemoteItem(entity: EntityType, remoteData: WireRecord): Promise<void> {
+    const remoteItem = fromWireFormat(remoteData);
 
-    if (!localItem) {
-      // New item from server, just insert
-      await offlineStore.put(entity, remoteData.id, {
-        ...remoteData,
-        syncStatus: 'synced',
-      });
-      return;
+    // Causality is decided by vector clocks, not by local sync status
+    this.logMergeOutcome(entity, await offlineStore.applyRemote(entity, remoteItem));
+  }
+
+  private logMergeOutcome(entity: EntityType, { outcome, item }: RemoteMergeResult): void {
+    if (outcome === 'resolved') {
+      console.log(`[SYNC] Resolved concurrent edit for ${entity}/${item.id}`);
+    }
+    if (outcome === 'manual') {
+      console.warn(`[SYNC] Concurrent edit for ${entity}/${item.id} needs manual resolution`);
     }
+  }
 
-    // Check for conflicts
-    if (localItem.syncStatus === 'pending') {
-      // Conflict detected
-      const remoteItem: DataItem = {
-        id: remoteData.id,
-        data: remoteData,
-        version: remoteData.version || Date.now(),
-        deviceId: 'server',
-        timestamp: remoteData.updatedAt || Date.now(),
-        vectorClock: remoteData.vectorClock || {},
-        syncStatus: 'synced',
-      };
-
-      const resolved = await offlineStore.resolveConflict(entity, localItem, remoteItem);
-
-      await offlineStore.put(entity, resolved.id, {
-        ...resolved.data,
-        syncStatus: 'synced',
-      });
+  // ==================== Realtime ====================
+
+  /**
+   * Receive server changes as they happen instead of on the next poll.
+   * Auto sync keeps running for uploads; while the socket is down the
+   * channel polls more often until it reconnects. Only the leader tab
+   * holds a socket; followers hear about merged changes from it.
+   */
+  startRealtime(options: RealtimeSubscriptionOptions = {}): void {
+    this.disconnectRealtime();
+    this.realtimeOptions = options;
+    this.connectRealtime();
+  }
 
-      console.log(`[SYNC] Resolved conflict for ${entity}/${remoteData.id}`);
-    } else {
-      // No conflict, server version is newer
-      await offlineStore.put(entity, remoteData.id, {
-        ...remoteData,
-        syncStatus: 'synced',
-      });
+  stopRealtime(): void {
+    this.realtimeOptions = null;
+    this.disconnectRealtime();
+  }
+
+  private connectRealtime(): void {
+    const options = this.realtimeOptions;
+    if (!options || this.realtime || !tabCoordinator.isLeader()) return;
+    if (deviceAuth.getStatus() !== 'enrolled') return;
+
+    const baseUrl = options.url ?? realtimeUrl(API_BASE_URL);
+
+    this.realtime = new RealtimeChannel({
+      ...options,
+      // An expired token is refused; the polls in between refresh it for the next try
+      url: () => {
+        const url = new URL(baseUrl);
+        url.searchParams.set(ACCESS_TOKEN_PARAM, deviceAuth.getAccessToken() ?? '');
+        return url.toString();
+      },
+      onChanges: (event) => this.applyChangeEvent(event),
+      onPoll: () => this.sync({ fullSync: false }),
+    });
+    this.realtime.start();
+  }
+
+  private disconnectRealtime(): void {
+    this.realtime?.stop();
+    this.realtime = null;
+  }
+
+  /**
+   * Merge a pushed change exactly like a pulled page. The cursor only moves
+   * when the event follows on from it; otherwise some changes were missed
+   * and the entity is pulled to fill the gap.
+   */
+  private async applyChangeEvent(event: ChangeEvent): Promise<void> {
+    const entity = ENTITIES.find((candidate) => candidate === event.entity);
+    if (!entity || this.getSyncPolicy(entity).direction === 'push') return;
+
+    const cursor = await offlineStore.getSyncCursor(entity);
+    const results = await offlineStore.applyRemoteChanges(
+      entity,
+      event.items.map((item) => fromWireFormat(item)),
+      event.cursor,
+      event.since
+    );
+    results.forEach((result) => this.logMergeOutcome(entity, result));
+
+    const contiguous = cursor === event.since;
+    offlineStore.syncLog.record({
+      event: 'realtime',
+      entity,
+      ids: event.items.map((item) => item.id),
+      level: contiguous ? 'info' : 'warn',
+      message: contiguous
+        ? `Applied ${event.items.length} pushed changes`
+        : `Applied ${event.items.length} pushed changes after a gap, pulling`,
+    });
+
+    if (!contiguous) {
+      console.log(`[SYNC] Realtime event for ${entity} skipped ahead of ${cursor ?? 'the start'}, pulling`);
+      await this.sync({ entities: [entity] });
     }
   }
 
   // ==================== Auto Sync ====================
 
-  startAutoSync(interval: number = SYNC_INTERVAL): void {
+  /**
+   * Sync each entity whenever its policy interval has passed since it last
+   * started. Passing `interval` sets the same period for every entity.
+   */
+  startAutoSync(interval?: number): void {
     if (this.autoSyncTimer) {
       this.stopAutoSync();
     }
 
-    console.log(`[SYNC] Starting auto-sync every ${interval}ms`);
+    if (interval !== undefined) {
+      ENTITIES.forEach((entity) => this.setSyncPolicy(entity, { interval }));
+    }
 
+    const periods = ENTITIES.map((entity) => `${entity} ${this.getSyncPolicy(entity).interval}ms`);
+    console.log(`[SYNC] Starting auto-sync (${periods.join(', ')})`);
+
+    // Every tab keeps a timer so a follower that takes over carries on syncing
     this.autoSyncTimer = window.setInterval(() => {
-      if (navigator.onLine && !this.syncInProgress) {
-        this.sync({ fullSync: false });
+      if (navigator.onLine && tabCoordinator.isLeader()) {
+        this.syncDueEntities();
       }
-    }, interval);
+    }, AUTO_SYNC_TICK);
 
-    // Initial sync
-    this.sync({ fullSync: false });
+    // Initial sync; a tab still waiting on the election syncs once it wins
+    if (tabCoordinator.isLeader()) {
+      this.sync({ fullSync: false });
+    }
   }
 
   stopAutoSync(): void {
@@ -414,13 +869,83 @@ export class SyncEngine {
     }
   }
 
+  private syncDueEntities(): void {
+    const now = Date.now();
+    const due = ENTITIES.filter(
+      (entity) =>
+        !this.syncing.has(entity) &&
+        now - (this.lastAttempt.get(entity) ?? 0) >= this.getSyncPolicy(entity).interval
+    );
+
+    if (due.length > 0) {
+      this.sync({ fullSync: false, entities: due });
+    }
+  }
+
   cancelSync(): void {
+    if (!tabCoordinator.isLeader()) {
+      tabCoordinator.publish(SYNC_CANCEL_TOPIC);
+      return;
+    }
+
     if (this.abortController) {
-      this.abortController.abort();
+      this.abortRuns();
       console.log('[SYNC] Sync cancelled by user');
+
+      const syncing = Array.from(this.syncing);
+      offlineStore.syncLog.record({
+        event: 'cancel',
+        message: `Sync cancelled by user${syncing.length > 0 ? ` during ${syncing.join(', ')}` : ''}`,
+      });
     }
   }
 
+  /**
+   * Abort the runs in flight; runs started afterwards get a new controller
+   */
+  private abortRuns(): void {
+    this.abortController?.abort();
+    this.abortController = null;
+  }
+
+  // ==================== Policies ====================
+
+  getSyncPolicy(entity: EntityType): SyncPolicy {
+    return { ...this.policies.get(entity)! };
+  }
+
+  /**
+   * Change how an entity syncs from its next run on, e.g. make the catalog
+   * pull-only on a till that never edits products
+   */
+  setSyncPolicy(entity: EntityType, updates: Partial<SyncPolicy>): void {
+    const policy = { ...this.policies.get(entity)!, ...updates };
+    const valid =
+      SYNC_DIRECTIONS.includes(policy.direction) &&
+      policy.interval > 0 &&
+      Number.isFinite(policy.priority) &&
+      Number.isInteger(policy.batchSize) &&
+      policy.batchSize >= 1 &&
+      Number.isInteger(policy.parallelism) &&
+      policy.parallelism >= 1;
+    if (!valid) {
+      throw new Error(`Invalid sync policy for ${entity}`);
+    }
+    this.policies.set(entity, policy);
+  }
+
+  /**
+   * Entities named in `options.priority` go first, in that order; the
+   * rest follow by their policy priority
+   */
+  private effectivePriority(entity: EntityType, options: SyncOptions): number {
+    const position = options.priority?.indexOf(entity) ?? -1;
+    if (position >= 0) {
+      return Number.MIN_SAFE_INTEGER + position;
+    }
+    return this.getSyncPolicy(entity).priority;
+  }
+
   // ==================== State Management ====================
 
   private updateSyncState(entity: EntityType, updates: Partial<SyncState>): void {
@@ -436,6 +961,44 @@ export class SyncEngine {
     return new Map(this.syncState);
   }
 
+  /**
+   * Derive progress, throughput and ETA from what the entity's run has
+   * moved. Items pushed and pulled count alike; the ETA assumes the rest
+   * goes at the rate so far.
+   */
+  private reportProgress(entity: EntityType): void {
+    const run = this.runs.get(entity);
+    if (!run) return;
+
+    const done = run.pushed + run.pulled;
+    const total = run.pullTotal === null ? null : run.pushTotal + run.pullTotal;
+    const elapsed = Math.max(1, Date.now() - run.startedAt);
+
+    this.updateSyncState(entity, {
+      itemsSynced: done,
+      itemsTotal: total,
+      bytesTransferred: run.bytes,
+      throughput: Math.round((run.bytes * 1000) / elapsed),
+      eta: total !== null && done > 0 ? Math.round((elapsed / done) * (total - done)) : null,
+      // 100 is left for when the run has finished
+      progress: total ? Math.min(99, Math.floor((done / total) * 100)) : 0,
+    });
+  }
+
+  private schedulePendingCount(entity: EntityType): void {
+    if (this.pendingCountTimers.has(entity)) return;
+
+    this.pendingCountTimers.set(
+      entity,
+      window.setTimeout(() => {
+        this.pendingCountTimers.delete(entity);
+        this.updatePendingCount(entity).catch((error) =>
+          console.warn(`[SYNC] Could not count pending ${entity}:`, error)
+        );
+      }, PENDING_COUNT_DELAY)
+    );
+  }
+
   private async updatePendingCount(entity: EntityType): Promise<void> {
     const changes = await this.detectLocalChanges(entity);
     const pending = changes.created.length + changes.updated.length + changes.deleted.length;
@@ -466,15 +1029,84 @@ export class SyncEngine {
     return batches;
   }
 
-  private handleSyncError(error: any): void {
+  /**
+   * Fetch and read the JSON body while holding one of the shared request
+   * slots, so large downloads count against the limit too. Both bodies are
+   * counted towards the entity's bytes transferred, as sent over the wire.
+   * An expired token is refreshed and the request repeated inside the same
+   * slot. Large bodies are gzipped once the server has said it accepts that.
+   */
+  private async request(
+    entity: EntityType,
+    priority: number,
+    path: string,
+    init: RequestInit
+  ): Promise<{ response: Response; body: unknown }> {
+    const headers: Record<string, string> = {
+      ...(init.headers as Record<string, string>),
+      [CAPABILITIES_HEADER]: formatCapabilities(CLIENT_CAPABILITIES),
+    };
+    let payload = init.body;
+    if (
+      typeof payload === 'string' &&
+      byteLength(payload) >= GZIP_MIN_BYTES &&
+      this.serverCapabilities.has('gzip') &&
+      CLIENT_CAPABILITIES.includes('gzip')
+    ) {
+      payload = await gzip(payload);
+      headers['Content-Encoding'] = 'gzip';
+    }
+
+    return this.requests.run(priority, async () => {
+      const response = await deviceAuth.fetch(`${API_BASE_URL}${path}`, {
+        ...init,
+        headers,
+        body: payload,
+        signal: this.runs.get(entity)?.signal,
+      });
+      const text = await response.text();
+      this.learnCapabilities(response);
+
+      const run = this.runs.get(entity);
+      if (run) {
+        // fetch has already decompressed the response; Content-Length is its wire size
+        const sent = payload instanceof Blob ? payload.size : byteLength(String(payload ?? ''));
+        const received = Number(response.headers.get('Content-Length') ?? byteLength(text));
+        run.bytes += sent + received;
+      }
+
+      let body: unknown = null;
+      try {
+        body = text ? JSON.parse(text) : null;
+      } catch {
+        // Not JSON, e.g. an error page from a proxy
+      }
+      return { response, body };
+    });
+  }
+
+  private learnCapabilities(response: Response): void {
+    const header = response.headers.get(CAPABILITIES_HEADER);
+    if (header !== null) {
+      this.serverCapabilities = parseCapabilities(header);
+    }
+  }
+
+  private toResponseError(action: string, response: Response, body: unknown): Error {
+    const detail = readProtocolError(body)?.message ?? response.statusText;
+    return new Error(`${action}: ${detail}`);
+  }
+
+  private handleSyncError(error: unknown, entities: EntityType[]): void {
     console.error('[SYNC] Sync error:', error);
+    const { message } = error instanceof Error ? error : { message: String(error) };
 
-    // Update all entity states to error
-    this.syncState.forEach((state, entity) => {
-      if (state.status === 'syncing') {
+    // Update the run's entity states to error
+    entities.forEach((entity) => {
+      if (this.syncState.get(entity)?.status === 'syncing') {
         this.updateSyncState(entity, {
           status: 'error',
-          lastError: error.message,
+          lastError: message,
         });
       }
     });
@@ -490,6 +1122,40 @@ export class SyncEngine {
   private notifyListeners(): void {
     const stateCopy = new Map(this.syncState);
     this.listeners.forEach((callback) => callback(stateCopy));
+
+    if (tabCoordinator.isLeader()) {
+      tabCoordinator.publish(SYNC_STATE_TOPIC, Array.from(stateCopy));
+    }
+  }
+
+  // ==================== Diagnostics ====================
+
+  /**
+   * Snapshot of sync state, cursors, queue, conflicts and the sync log,
+   * ready to be saved as JSON and attached to a support request
+   */
+  async exportDiagnostics(): Promise<DiagnosticsBundle> {
+    const [queuedWrites, conflicts, log, cursors] = await Promise.all([
+      offlineStore.getQueuedWrites(),
+      offlineStore.listConflicts(),
+      offlineStore.syncLog.list({ limit: Infinity }),
+      Promise.all(ENTITIES.map(async (entity) => [entity, await offlineStore.getSyncCursor(entity)])),
+    ]);
+
+    return {
+      generatedAt: new Date().toISOString(),
+      deviceId: offlineStore.getDeviceId(),
+      tabId: tabCoordinator.tabId,
+      isLeader: tabCoordinator.isLeader(),
+      online: navigator.onLine,
+      userAgent: navigator.userAgent,
+      syncState: Object.fromEntries(this.syncState) as Record<EntityType, SyncState>,
+      cursors: Object.fromEntries(cursors),
+      serverCapabilities: Array.from(this.serverCapabilities),
+      queuedWrites,
+      conflicts,
+      log,
+    };
   }
 
   // ==================== Health Check ====================
@@ -498,8 +1164,13 @@ export class SyncEngine {
     try {
       const response = await fetch(`${API_BASE_URL}/health`, {
         method: 'HEAD',
+        headers: {
+          ...(await deviceAuth.authHeaders()),
+          [CAPABILITIES_HEADER]: formatCapabilities(CLIENT_CAPABILITIES),
+        },
         signal: AbortSignal.timeout(5000),
       });
+      this.learnCapabilities(response);
       return response.ok;
     } catch {
       return false;
@@ -526,14 +1197,25 @@ export class SyncEngine {
 
     const serverAvailable = await this.checkServerHealth();
 
+    // Followers only see the leader's sync through the state it publishes
+    const syncInProgress = tabCoordinator.isLeader()
+      ? this.syncing.size > 0
+      : Array.from(this.syncState.values()).some((state) => state.status === 'syncing');
+
     return {
       totalPending,
       lastSync,
-      syncInProgress: this.syncInProgress,
+      syncInProgress,
       serverAvailable,
     };
   }
 }
 
+const encoder = new TextEncoder();
+
+function byteLength(text: string): number {
+  return text ? encoder.encode(text).length : 0;
+}
+
 // Export singleton
 export const syncEngine = new SyncEngine();
@@ -0,0 +1,87 @@
+/**
+ * Unit of Work
+ *
+ * Collects writes across several stores and commits them in one IndexedDB
+ * transaction, together with their sync queue entries. Either everything is
+ * applied or nothing is.
+ *
+ * @example
+ * await offlineStore.unitOfWork()
+ *   .put('orders', order.id, order)
+ *   .update('orders', order.id, (current) => current && { ...current, status: 'ready' })
+ *   .commit();
+ */
+
+import type { OfflineDataStore } from './OfflineDataStore';
+import type { CollectionName, StoreTypeMap } from './collections';
+
+// Types
+export interface UnitOfWorkWriteOptions {
+  sync?: boolean; // Enqueue the write for server sync (default: true)
+}
+
+export type UnitOfWorkOperation = UnitOfWorkWriteOptions & { store: string; id: string } & (
+  | { type: 'put'; data: unknown }
+  // Return `undefined` to leave the record untouched
+  | { type: 'update'; update: (current: never) => unknown }
+  | { type: 'delete' }
+);
+
+export class UnitOfWork {
+  private store: OfflineDataStore;
+  private operations: UnitOfWorkOperation[] = [];
+  private committed = false;
+
+  constructor(store: OfflineDataStore) {
+    this.store = store;
+  }
+
+  put<K extends CollectionName>(
+    store: K,
+    id: string,
+    data: StoreTypeMap[K],
+    options?: UnitOfWorkWriteOptions
+  ): this;
+  put<T>(store: string, id: string, data: T, options?: UnitOfWorkWriteOptions): this;
+  put(store: string, id: string, data: unknown, options: UnitOfWorkWriteOptions = {}): this {
+    this.operations.push({ type: 'put', store, id, data, ...options });
+    return this;
+  }
+
+  /**
+   * Read-modify-write inside the transaction; `current` is null when absent
+   */
+  update<K extends CollectionName>(
+    store: K,
+    id: string,
+    update: (current: StoreTypeMap[K] | null) => StoreTypeMap[K] | undefined,
+    options?: UnitOfWorkWriteOptions
+  ): this;
+  update<T>(
+    store: string,
+    id: string,
+    update: (current: T | null) => T | undefined,
+    options?: UnitOfWorkWriteOptions
+  ): this;
+  update(
+    store: string,
+    id: string,
+    update: (current: never) => unknown,
+    options: UnitOfWorkWriteOptions = {}
+  ): this {
+    this.operations.push({ type: 'update', store, id, update, ...options });
+    return this;
+  }
+
+  delete(store: string, id: string, options: UnitOfWorkWriteOptions = {}): this {
+    this.operations.push({ type: 'delete', store, id, ...options });
+    return this;
+  }
+
+  async commit(): Promise<void> {
+    if (this.committed) throw new Error('Unit of work already committed');
+    this.committed = true;
+
+    await this.store.commitUnitOfWork(this.operations);
+  }
+}
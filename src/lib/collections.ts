@@ -0,0 +1,193 @@
+/**
+ * Typed Collections
+ *
+ * Compile-time map from store name to record type, plus runtime schemas that
+ * every collection write is validated against. Use via
+ * `offlineStore.collection('orders')` instead of free-form store names.
+ */
+
+import type { Product } from '../app/store/slices/productsSlice';
+import type { Order, OrderStatus } from '../features/orders/ordersSlice';
+import type { PrintJob, PrintStatus } from './PrintJobManager';
+import type {
+  DataItem,
+  IterateOptions,
+  OfflineDataStore,
+  Page,
+  QueryOptions,
+} from './OfflineDataStore';
+import type { CounterRecord } from './pnCounter';
+import { assertValid, type FieldSchema } from './schema';
+
+// Types
+export interface ProductRecord extends Product {
+  searchText: string;
+}
+
+// `quantity` is derived from `counter`; always update both together
+export interface InventoryRecord extends CounterRecord {
+  productId: number;
+}
+
+export interface StoreTypeMap {
+  products: ProductRecord;
+  orders: Order;
+  inventory: InventoryRecord;
+  printJobs: PrintJob;
+}
+
+export interface StoreIndexMap {
+  products: { category: string; searchText: string };
+  orders: { status: OrderStatus; createdAt: string; statusCreatedAt: [OrderStatus, string] };
+  inventory: Record<never, never>;
+  printJobs: { status: PrintStatus; createdAt: number; printerAddress: string };
+}
+
+export type CollectionName = keyof StoreTypeMap;
+export type CollectionChange<T> = DataItem<T> | { id: string; deleted: true };
+export type IndexName<K extends CollectionName> = keyof StoreIndexMap[K] & string;
+export type IndexQuery<K extends CollectionName, I extends IndexName<K>> =
+  | StoreIndexMap[K][I]
+  | IDBKeyRange;
+
+export type CollectionQueryOptions<K extends CollectionName> = Omit<QueryOptions, 'index'> & {
+  index?: IndexName<K>;
+};
+
+export type CollectionIterateOptions<K extends CollectionName> = Omit<IterateOptions, 'index'> & {
+  index?: IndexName<K>;
+};
+
+// ==================== Schemas ====================
+
+const ORDER_STATUSES: readonly OrderStatus[] = ['pending', 'preparing', 'ready', 'completed'];
+const PRINT_STATUSES: readonly PrintStatus[] = ['pending', 'printing', 'completed', 'failed'];
+
+export const COLLECTION_SCHEMAS: { [K in CollectionName]: FieldSchema } = {
+  products: {
+    type: 'object',
+    fields: {
+      id: { type: 'number' },
+      name: { type: 'string' },
+      category: { type: 'string' },
+      price: { type: 'number' },
+      image: { type: 'string' },
+      searchText: { type: 'string' },
+    },
+  },
+  orders: {
+    type: 'object',
+    fields: {
+      id: { type: 'string' },
+      items: {
+        type: 'array',
+        items: {
+          type: 'object',
+          fields: {
+            id: { type: 'number' },
+            name: { type: 'string' },
+            quantity: { type: 'number' },
+            notes: { type: 'string', optional: true },
+            price: { type: 'number' },
+          },
+        },
+      },
+      total: { type: 'number' },
+      status: { type: 'string', enum: ORDER_STATUSES },
+      createdAt: { type: 'string' },
+    },
+  },
+  inventory: {
+    type: 'object',
+    fields: {
+      productId: { type: 'number' },
+      counter: {
+        type: 'object',
+        fields: {
+          increments: { type: 'object', fields: {} },
+          decrements: { type: 'object', fields: {} },
+        },
+      },
+      quantity: { type: 'number' },
+    },
+  },
+  printJobs: {
+    type: 'object',
+    fields: {
+      id: { type: 'string' },
+      destination: { type: 'string', enum: ['receipt', 'kitchen', 'bar'] },
+      type: { type: 'string', enum: ['order', 'receipt', 'report'] },
+      priority: { type: 'number' },
+      printerAddress: { type: 'string' },
+      data: { type: 'any' },
+      template: { type: 'string' },
+      status: { type: 'string', enum: PRINT_STATUSES },
+      retryCount: { type: 'number' },
+      maxRetries: { type: 'number' },
+      createdAt: { type: 'number' },
+      completedAt: { type: 'number', optional: true },
+      error: { type: 'string', optional: true },
+    },
+  },
+};
+
+export function isCollectionName(name: string): name is CollectionName {
+  return Object.prototype.hasOwnProperty.call(COLLECTION_SCHEMAS, name);
+}
+
+export function validateRecord<K extends CollectionName>(name: K, data: unknown): StoreTypeMap[K] {
+  assertValid(`${name} record`, COLLECTION_SCHEMAS[name], data);
+  return data as StoreTypeMap[K];
+}
+
+// ==================== Collection ====================
+
+export class Collection<K extends CollectionName> {
+  private store: OfflineDataStore;
+  readonly name: K;
+
+  constructor(store: OfflineDataStore, name: K) {
+    this.store = store;
+    this.name = name;
+  }
+
+  get(id: string): Promise<DataItem<StoreTypeMap[K]> | null> {
+    return this.store.get<StoreTypeMap[K]>(this.name, id);
+  }
+
+  /**
+   * Write through the store, which validates against the collection schema
+   */
+  put(id: string, data: StoreTypeMap[K]): Promise<void> {
+    return this.store.put(this.name, id, data);
+  }
+
+  delete(id: string): Promise<void> {
+    return this.store.delete(this.name, id);
+  }
+
+  all(): Promise<DataItem<StoreTypeMap[K]>[]> {
+    return this.store.query<StoreTypeMap[K]>(this.name);
+  }
+
+  where<I extends IndexName<K>>(
+    index: I,
+    query: IndexQuery<K, I>
+  ): Promise<DataItem<StoreTypeMap[K]>[]> {
+    return this.store.query<StoreTypeMap[K]>(this.name, index, query as IDBValidKey | IDBKeyRange);
+  }
+
+  page(options: CollectionQueryOptions<K> = {}): Promise<Page<StoreTypeMap[K]>> {
+    return this.store.queryPage<StoreTypeMap[K]>(this.name, options);
+  }
+
+  iterate(
+    options: CollectionIterateOptions<K> = {}
+  ): AsyncGenerator<DataItem<StoreTypeMap[K]>, void, undefined> {
+    return this.store.iterate<StoreTypeMap[K]>(this.name, options);
+  }
+
+  subscribe(callback: (change: CollectionChange<StoreTypeMap[K]>) => void): () => void {
+    return this.store.subscribe(this.name, callback);
+  }
+}
@@ -0,0 +1,124 @@
+/**
+ * Conflict Resolvers
+ *
+ * Pluggable policies for concurrent edits (vector clocks neither before nor
+ * after each other). A resolver sees both versions plus the last version
+ * both sides agreed on, and decides which data survives - or hands the pair
+ * to a human by returning `'manual'`.
+ *
+ * @example
+ * offlineStore.registerConflictResolver('orders', fieldMerge({ onConflict: 'manual' }));
+ */
+
+import type { DataItem } from './OfflineDataStore';
+
+// Types
+export interface ConflictContext<T = unknown> {
+  store: string;
+  local: DataItem<T>;
+  remote: DataItem<T>;
+  base: T | undefined; // Last synced data, when known
+}
+
+export type ConflictResolution<T = unknown> =
+  | { resolution: 'local' }
+  | { resolution: 'remote' }
+  | { resolution: 'merged'; data: T }
+  | { resolution: 'manual' };
+
+export type ConflictResolver<T = unknown> = (context: ConflictContext<T>) => ConflictResolution<T>;
+
+export interface FieldMergeOptions {
+  // Who wins when both sides changed the same field (default: 'manual')
+  onConflict?: 'local' | 'remote' | 'manual';
+}
+
+// ==================== Built-in Resolvers ====================
+
+export const localWins: ConflictResolver = () => ({ resolution: 'local' });
+
+export const remoteWins: ConflictResolver = () => ({ resolution: 'remote' });
+
+export const manualResolution: ConflictResolver = () => ({ resolution: 'manual' });
+
+export const lastWriteWins: ConflictResolver = ({ local, remote }) => ({
+  resolution: local.timestamp > remote.timestamp ? 'local' : 'remote',
+});
+
+/**
+ * Three-way merge of top-level fields against the stored base version:
+ * a field changed on one side only takes that side's value. Falls back to
+ * `onConflict` for the whole record without a base.
+ */
+export function fieldMerge(options: FieldMergeOptions = {}): ConflictResolver {
+  const onConflict = options.onConflict ?? 'manual';
+
+  return ({ local, remote, base }) => {
+    if (!isPlainObject(local.data) || !isPlainObject(remote.data) || !isPlainObject(base)) {
+      return { resolution: onConflict };
+    }
+
+    const merged = threeWayMerge(base, local.data, remote.data);
+    if (merged.conflicts.length > 0 && onConflict !== 'local') {
+      if (onConflict === 'manual') return { resolution: 'manual' };
+      return { resolution: 'merged', data: { ...merged.data, ...pick(remote.data, merged.conflicts) } };
+    }
+
+    return { resolution: 'merged', data: merged.data };
+  };
+}
+
+// ==================== Three-way Merge ====================
+
+export interface ThreeWayMergeResult {
+  data: Record<string, unknown>; // Conflicting fields keep the local value
+  conflicts: string[];
+}
+
+export function threeWayMerge(
+  base: Record<string, unknown>,
+  local: Record<string, unknown>,
+  remote: Record<string, unknown>
+): ThreeWayMergeResult {
+  const data: Record<string, unknown> = {};
+  const conflicts: string[] = [];
+  const fields = new Set([...Object.keys(base), ...Object.keys(local), ...Object.keys(remote)]);
+
+  for (const field of fields) {
+    const localChanged = !isEqual(local[field], base[field]);
+    const remoteChanged = !isEqual(remote[field], base[field]);
+    const value = remoteChanged && !localChanged ? remote[field] : local[field];
+
+    if (localChanged && remoteChanged && !isEqual(local[field], remote[field])) {
+      conflicts.push(field);
+    }
+    if (value !== undefined) {
+      data[field] = value;
+    }
+  }
+
+  return { data, conflicts };
+}
+
+export function isEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+
+  const aRecord = a as Record<string, unknown>;
+  const bRecord = b as Record<string, unknown>;
+  const keys = Object.keys(aRecord);
+
+  return (
+    keys.length === Object.keys(bRecord).length &&
+    keys.every((key) => isEqual(aRecord[key], bRecord[key]))
+  );
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function pick(record: Record<string, unknown>, fields: string[]): Record<string, unknown> {
+  return Object.fromEntries(fields.map((field) => [field, record[field]]));
+}
@@ -0,0 +1,354 @@
+/**
+ * Device Authentication
+ *
+ * Enrolls this device with the sync server and keeps its tokens fresh. The
+ * credentials live in the `meta` store, so every tab and the service worker
+ * share them.
+ *
+ * `fetch` stands in for the global one: it attaches the bearer token,
+ * refreshes it when the server answers 401 and sends the same request once
+ * more, so a batch in flight is not lost to an expired token. A
+ * `device_revoked` answer clears the credentials and reports `revoked` to
+ * subscribers; nothing syncs until the device enrolls again.
+ *
+ * @example
+ * await deviceAuth.enroll('K7QM2XPA', 'Till 3');
+ * const response = await deviceAuth.fetch('/api/v1/orders/changes?since=0');
+ * deviceAuth.subscribe((status) => status === 'revoked' && showRevokedAlert());
+ */
+
+import { HttpTransport, AuthenticationError, TransportError } from './httpTransport';
+import { META_STORE } from './migrations';
+import { offlineStore, type OfflineDataStore } from './OfflineDataStore';
+import {
+  PROTOCOL_HEADER,
+  PROTOCOL_VERSION,
+  parseDeviceCredentials,
+  readProtocolError,
+  type DeviceCredentials,
+  type EnrollmentRequest,
+  type RefreshRequest,
+} from './protocol';
+import { systemClock, type Clock } from './storage';
+import { withLock } from './syncLock';
+import { singleTab, tabCoordinator, type TabCoordinator } from './tabCoordinator';
+
+// Types
+export type DeviceAuthStatus = 'loading' | 'unenrolled' | 'enrolled' | 'revoked';
+
+export interface DeviceAuthOptions {
+  baseUrl?: string;
+  clock?: Clock;
+  fetch?: typeof fetch;
+  coordinator?: TabCoordinator; // Default: a lone tab that always leads
+  refreshMargin?: number; // Refresh this long before the access token expires
+}
+
+// What the `meta` store keeps under AUTH_KEY
+interface AuthRecord {
+  id: string;
+  credentials: DeviceCredentials | null;
+  revokedAt?: number; // Kept so the alert survives a reload
+}
+
+type AuthDatabase = Pick<OfflineDataStore, 'init' | 'executeTransaction' | 'getDeviceId'>;
+
+// Configuration
+const DEFAULT_BASE_URL = '/api/v1';
+const AUTH_KEY = 'auth';
+const AUTH_LOCK_NAME = 'pos-auth';
+const AUTH_CHANGED_TOPIC = 'auth:changed';
+const REFRESH_MARGIN = 30000; // 30 seconds
+
+export class DeviceAuth {
+  private db: AuthDatabase;
+  private baseUrl: string;
+  private clock: Clock;
+  private fetchImpl: typeof fetch;
+  private coordinator: TabCoordinator;
+  private refreshMargin: number;
+  private credentials: DeviceCredentials | null = null;
+  private status: DeviceAuthStatus = 'loading';
+  private loading: Promise<void> | null = null;
+  private refreshing: Promise<DeviceCredentials> | null = null;
+  private listeners: Set<(status: DeviceAuthStatus) => void> = new Set();
+
+  constructor(db: AuthDatabase, options: DeviceAuthOptions = {}) {
+    this.db = db;
+    this.baseUrl = (options.baseUrl ?? DEFAULT_BASE_URL).replace(/\/+$/, '');
+    this.clock = options.clock ?? systemClock;
+    this.fetchImpl = options.fetch ?? ((input, init) => fetch(input, init));
+    this.coordinator = options.coordinator ?? singleTab;
+    this.refreshMargin = options.refreshMargin ?? REFRESH_MARGIN;
+
+    // Another tab enrolled, refreshed or was told the device is revoked
+    this.coordinator.on(AUTH_CHANGED_TOPIC, () => {
+      this.reload();
+    });
+  }
+
+  // ==================== Status ====================
+
+  /**
+   * Resolves once the stored credentials have been read
+   */
+  async ready(): Promise<DeviceAuthStatus> {
+    this.loading ??= this.load();
+    await this.loading;
+    return this.status;
+  }
+
+  /**
+   * Read the stored credentials again, for contexts nobody tells about
+   * changes (the service worker)
+   */
+  async reload(): Promise<DeviceAuthStatus> {
+    this.loading = this.load();
+    return this.ready();
+  }
+
+  getStatus(): DeviceAuthStatus {
+    return this.status;
+  }
+
+  // Where this device is enrolled, or null
+  getDevice(): Pick<DeviceCredentials, 'deviceId' | 'locationId'> | null {
+    if (!this.credentials) return null;
+    const { deviceId, locationId } = this.credentials;
+    return { deviceId, locationId };
+  }
+
+  /**
+   * The current access token without refreshing it, for URLs that cannot
+   * wait (the realtime socket). Null when not enrolled.
+   */
+  getAccessToken(): string | null {
+    return this.credentials?.accessToken ?? null;
+  }
+
+  subscribe(listener: (status: DeviceAuthStatus) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  // ==================== Enrollment ====================
+
+  /**
+   * Pair this device with the location the code was issued for
+   */
+  async enroll(code: string, name?: string): Promise<DeviceCredentials> {
+    await this.db.init();
+
+    const request: EnrollmentRequest = { code: code.trim(), deviceId: this.db.getDeviceId(), name };
+    const response = await this.post('/devices/enroll', request);
+    const body = await readJson(response);
+
+    if (!response.ok) {
+      const detail = readProtocolError(body)?.message ?? response.statusText;
+      throw new Error(`Enrollment failed: ${detail}`);
+    }
+
+    const credentials = parseDeviceCredentials(body);
+    await this.write({ id: AUTH_KEY, credentials });
+    console.log(`[SYNC] Device enrolled at ${credentials.locationId}`);
+    return credentials;
+  }
+
+  // ==================== Requests ====================
+
+  /**
+   * `fetch` with the bearer token attached. Rejects with an
+   * `AuthenticationError` when the device may not sync: not enrolled,
+   * revoked, or still refused after a refresh.
+   */
+  readonly fetch = async (input: RequestInfo | URL, init: RequestInit = {}): Promise<Response> => {
+    const credentials = await this.currentCredentials();
+    let response = await this.fetchImpl(input, withToken(init, credentials.accessToken));
+
+    if (response.status === 401) {
+      // Same init, same body: the request goes again as it was
+      const renewed = await this.refresh(credentials.accessToken);
+      response = await this.fetchImpl(input, withToken(init, renewed.accessToken));
+    }
+
+    if (response.status === 401 || response.status === 403) {
+      const error = readProtocolError(await readJson(response.clone()));
+      if (error?.code === 'device_revoked') {
+        throw await this.revoked();
+      }
+      if (response.status === 401) {
+        throw new AuthenticationError('Access token refused after refresh', false, 401);
+      }
+    }
+
+    return response;
+  };
+
+  /**
+   * Authorization header for requests that must go out either way (health
+   * checks); empty when not enrolled
+   */
+  async authHeaders(): Promise<Record<string, string>> {
+    try {
+      const credentials = await this.currentCredentials();
+      return { Authorization: `Bearer ${credentials.accessToken}` };
+    } catch {
+      return {};
+    }
+  }
+
+  // ==================== Tokens ====================
+
+  private async currentCredentials(): Promise<DeviceCredentials> {
+    await this.ready();
+
+    const credentials = this.credentials;
+    if (!credentials) {
+      const revoked = this.status === 'revoked';
+      const message = revoked ? 'This device has been revoked' : 'This device is not enrolled';
+      throw new AuthenticationError(message, revoked);
+    }
+
+    if (credentials.expiresAt - this.clock.now() > this.refreshMargin) {
+      return credentials;
+    }
+    return this.refresh(credentials.accessToken);
+  }
+
+  /**
+   * One refresh at a time in this context, and under a lock across tabs and
+   * the service worker: the refresh token works once, so whoever comes
+   * second picks the new pair up from the database instead.
+   */
+  private refresh(staleToken: string): Promise<DeviceCredentials> {
+    this.refreshing ??= withLock(AUTH_LOCK_NAME, () => this.refreshStale(staleToken)).finally(() => {
+      this.refreshing = null;
+    });
+    return this.refreshing;
+  }
+
+  private async refreshStale(staleToken: string): Promise<DeviceCredentials> {
+    const stored = await this.read();
+    this.apply(stored);
+
+    const credentials = stored?.credentials;
+    if (!credentials) {
+      throw new AuthenticationError('This device is not enrolled', this.status === 'revoked');
+    }
+    if (
+      credentials.accessToken !== staleToken &&
+      credentials.expiresAt - this.clock.now() > this.refreshMargin
+    ) {
+      return credentials;
+    }
+
+    const request: RefreshRequest = { refreshToken: credentials.refreshToken };
+    const response = await this.post('/devices/refresh', request);
+    const body = await readJson(response);
+
+    if (response.ok) {
+      const renewed = parseDeviceCredentials(body);
+      await this.write({ id: AUTH_KEY, credentials: renewed });
+      return renewed;
+    }
+
+    const error = readProtocolError(body);
+    if (error?.code === 'device_revoked') {
+      throw await this.revoked();
+    }
+    if (response.status === 401) {
+      // The server no longer knows these credentials (e.g. it was reset)
+      await this.write({ id: AUTH_KEY, credentials: null });
+      throw new AuthenticationError('Device credentials were not accepted; enroll again', false, 401);
+    }
+
+    // Server trouble; the credentials stay and the refresh is tried again later
+    const detail = error?.message ?? response.statusText;
+    throw new TransportError(`Token refresh failed: ${detail}`, true, response.status);
+  }
+
+  private async revoked(): Promise<AuthenticationError> {
+    console.warn('[SYNC] This device has been revoked; sync stopped');
+    await this.write({ id: AUTH_KEY, credentials: null, revokedAt: this.clock.now() });
+    return new AuthenticationError('This device has been revoked', true, 403);
+  }
+
+  private post(path: string, body: unknown): Promise<Response> {
+    return this.fetchImpl(`${this.baseUrl}${path}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        [PROTOCOL_HEADER]: String(PROTOCOL_VERSION),
+      },
+      body: JSON.stringify(body),
+    });
+  }
+
+  // ==================== Persistence ====================
+
+  private async load(): Promise<void> {
+    try {
+      this.apply(await this.read());
+    } catch (error) {
+      console.error('[SYNC] Could not read device credentials:', error);
+      this.apply(null);
+    }
+  }
+
+  private async read(): Promise<AuthRecord | null> {
+    await this.db.init();
+
+    let record: AuthRecord | null = null;
+    await this.db.executeTransaction(META_STORE, 'readonly', (objectStore) => {
+      const request = objectStore.get(AUTH_KEY);
+      request.onsuccess = () => {
+        record = request.result ?? null;
+      };
+    });
+    return record;
+  }
+
+  private async write(record: AuthRecord): Promise<void> {
+    await this.db.init();
+    await this.db.executeTransaction(META_STORE, 'readwrite', (objectStore) => {
+      objectStore.put(record);
+    });
+
+    this.apply(record);
+    this.coordinator.publish(AUTH_CHANGED_TOPIC);
+  }
+
+  private apply(record: AuthRecord | null): void {
+    this.credentials = record?.credentials ?? null;
+
+    let status: DeviceAuthStatus = 'unenrolled';
+    if (this.credentials) status = 'enrolled';
+    else if (record?.revokedAt !== undefined) status = 'revoked';
+
+    if (status !== this.status) {
+      this.status = status;
+      this.listeners.forEach((listener) => listener(status));
+    }
+  }
+}
+
+function withToken(init: RequestInit, accessToken: string): RequestInit {
+  const headers = new Headers(init.headers);
+  headers.set('Authorization', `Bearer ${accessToken}`);
+  return { ...init, headers };
+}
+
+async function readJson(response: Response): Promise<unknown> {
+  try {
+    const text = await response.text();
+    return text ? JSON.parse(text) : null;
+  } catch {
+    return null;
+  }
+}
+
+// Export singleton
+export const deviceAuth = new DeviceAuth(offlineStore, { coordinator: tabCoordinator });
+
+// Queued writes go out with the device's token too
+offlineStore.setTransport(new HttpTransport({ fetch: deviceAuth.fetch }));
@@ -0,0 +1,233 @@
+/**
+ * HTTP Write Transport
+ *
+ * Sends queued writes from the offline store to the REST API and sorts the
+ * outcome into applied, conflicting (409/412), retryable (5xx, timeouts,
+ * network errors), unauthorized (401, revoked device) or permanent (other
+ * 4xx) so the queue knows what to do next.
+ *
+ * @example
+ * offlineStore.setTransport(new HttpTransport({
+ *   baseUrl: 'https://pos.example.com/api/v1',
+ *   authHeaders: async () => ({ Authorization: `Bearer ${await getToken()}` }),
+ *   timeout: 10000,
+ * }));
+ */
+
+import {
+  PROTOCOL_HEADER,
+  PROTOCOL_VERSION,
+  parseConflictResponse,
+  parseWireRecord,
+  readProtocolError,
+  type WireRecord,
+} from './protocol';
+
+// Types
+export interface WriteOptions {
+  idempotencyKey: string;
+}
+
+export type WriteResult =
+  | { status: 'applied'; record?: WireRecord } // The server's copy, when it returns one
+  | { status: 'conflict'; current?: WireRecord }; // The version the server holds instead
+
+export interface SyncTransport {
+  put(store: string, record: WireRecord, options: WriteOptions): Promise<WriteResult>;
+  delete(store: string, tombstone: WireRecord, options: WriteOptions): Promise<WriteResult>;
+  // `null` when the server has no such record
+  get(store: string, id: string): Promise<WireRecord | null>;
+}
+
+export interface HttpTransportOptions {
+  baseUrl?: string;
+  // Called before every request, e.g. to attach a fresh bearer token
+  authHeaders?: () => Record<string, string> | Promise<Record<string, string>>;
+  timeout?: number; // Per request, in ms
+  fetch?: typeof fetch;
+}
+
+export class TransportError extends Error {
+  readonly retryable: boolean;
+  readonly status?: number;
+
+  constructor(message: string, retryable: boolean, status?: number) {
+    super(message);
+    this.name = 'TransportError';
+    this.retryable = retryable;
+    this.status = status;
+  }
+}
+
+/**
+ * The device may not sync right now: it is not enrolled, its token was
+ * refused or it has been revoked. Says nothing about the write itself,
+ * which stays queued until the device may sync again.
+ */
+export class AuthenticationError extends TransportError {
+  readonly revoked: boolean;
+
+  constructor(message: string, revoked = false, status?: number) {
+    super(message, false, status);
+    this.name = 'AuthenticationError';
+    this.revoked = revoked;
+  }
+}
+
+// Configuration
+const DEFAULT_BASE_URL = '/api/v1';
+const DEFAULT_TIMEOUT = 15000; // 15 seconds
+
+// Throttling and timeouts are worth retrying; other client errors are not
+const RETRYABLE_CLIENT_STATUSES = new Set([408, 425, 429]);
+const CONFLICT_STATUSES = new Set([409, 412]);
+
+export class HttpTransport implements SyncTransport {
+  private baseUrl: string;
+  private authHeaders: HttpTransportOptions['authHeaders'];
+  private timeout: number;
+  private fetchImpl: typeof fetch;
+
+  constructor(options: HttpTransportOptions = {}) {
+    this.baseUrl = (options.baseUrl ?? DEFAULT_BASE_URL).replace(/\/+$/, '');
+    this.authHeaders = options.authHeaders;
+    this.timeout = options.timeout ?? DEFAULT_TIMEOUT;
+    this.fetchImpl = options.fetch ?? ((input, init) => fetch(input, init));
+  }
+
+  // ==================== Writes ====================
+
+  async put(store: string, record: WireRecord, options: WriteOptions): Promise<WriteResult> {
+    const response = await this.request('PUT', this.recordUrl(store, record.id), record, options);
+    return this.toWriteResult(response);
+  }
+
+  async delete(store: string, tombstone: WireRecord, options: WriteOptions): Promise<WriteResult> {
+    const response = await this.request('DELETE', this.recordUrl(store, tombstone.id), tombstone, options);
+
+    // Already gone counts as deleted
+    if (response.status === 404) return { status: 'applied' };
+    return this.toWriteResult(response);
+  }
+
+  // ==================== Reads ====================
+
+  async get(store: string, id: string): Promise<WireRecord | null> {
+    const response = await this.request('GET', this.recordUrl(store, id));
+
+    if (response.status === 404) return null;
+    if (!response.ok) throw await this.toError(response);
+    return parseWireRecord(await readJson(response));
+  }
+
+  // ==================== Helpers ====================
+
+  private recordUrl(store: string, id: string): string {
+    return `${this.baseUrl}/${encodeURIComponent(store)}/${encodeURIComponent(id)}`;
+  }
+
+  private async request(
+    method: string,
+    url: string,
+    body?: WireRecord,
+    options?: WriteOptions
+  ): Promise<Response> {
+    const headers: Record<string, string> = {
+      Accept: 'application/json',
+      [PROTOCOL_HEADER]: String(PROTOCOL_VERSION),
+      ...(await this.authHeaders?.()),
+    };
+    if (body) headers['Content-Type'] = 'application/json';
+    if (options) headers['Idempotency-Key'] = options.idempotencyKey;
+
+    try {
+      return await this.fetchImpl(url, {
+        method,
+        headers,
+        body: body ? JSON.stringify(body) : undefined,
+        signal: AbortSignal.timeout(this.timeout),
+      });
+    } catch (error) {
+      // Already classified, e.g. by an authenticating `fetch`
+      if (error instanceof TransportError) throw error;
+
+      const { name, message } = error instanceof Error ? error : { name: '', message: String(error) };
+      if (name === 'TimeoutError' || name === 'AbortError') {
+        throw new TransportError(`${method} ${url} timed out after ${this.timeout}ms`, true);
+      }
+      // fetch only rejects on network failures
+      throw new TransportError(`${method} ${url} failed: ${message}`, true);
+    }
+  }
+
+  private async toWriteResult(response: Response): Promise<WriteResult> {
+    if (CONFLICT_STATUSES.has(response.status)) {
+      // Without a valid `current`, the conflict handler fetches the record itself
+      const current = tryParse(parseConflictResponse, await readJson(response))?.current;
+      return { status: 'conflict', current };
+    }
+
+    if (!response.ok) throw await this.toError(response);
+
+    // The write went through either way; a malformed echo is just not used
+    return { status: 'applied', record: tryParse(parseWireRecord, await readJson(response)) };
+  }
+
+  private async toError(response: Response): Promise<TransportError> {
+    const retryable = response.status >= 500 || RETRYABLE_CLIENT_STATUSES.has(response.status);
+    const error = readProtocolError(await readJson(response));
+    const message = `Server responded ${response.status}: ${error?.message ?? response.statusText}`;
+
+    if (response.status === 401 || error?.code === 'device_revoked') {
+      return new AuthenticationError(message, error?.code === 'device_revoked', response.status);
+    }
+    return new TransportError(message, retryable, response.status);
+  }
+}
+
+/**
+ * Keeps writes in memory instead of sending them, for sandboxes that must
+ * never reach the real server. Every write is applied.
+ */
+export class MemoryTransport implements SyncTransport {
+  private records: Map<string, WireRecord> = new Map();
+
+  async put(store: string, record: WireRecord): Promise<WriteResult> {
+    return { status: 'applied', record: this.save(store, record) };
+  }
+
+  async delete(store: string, tombstone: WireRecord): Promise<WriteResult> {
+    return { status: 'applied', record: this.save(store, tombstone) };
+  }
+
+  async get(store: string, id: string): Promise<WireRecord | null> {
+    return this.records.get(`${store}/${id}`) ?? null;
+  }
+
+  private save(store: string, record: WireRecord): WireRecord {
+    const key = `${store}/${record.id}`;
+    const saved = { ...record, version: (this.records.get(key)?.version ?? 0) + 1 };
+    this.records.set(key, saved);
+    return saved;
+  }
+}
+
+async function readJson(response: Response): Promise<unknown> {
+  try {
+    const text = await response.text();
+    return text ? JSON.parse(text) : null;
+  } catch {
+    return null;
+  }
+}
+
+function tryParse<T>(parse: (value: unknown) => T, value: unknown): T | undefined {
+  if (value === null) return undefined;
+
+  try {
+    return parse(value);
+  } catch (error) {
+    console.warn('[SYNC] Ignoring malformed server payload:', error);
+    return undefined;
+  }
+}
@@ -0,0 +1,392 @@
+/**
+ * Schema Migrations for the Offline Data Store
+ *
+ * Declarative, ordered registry of IndexedDB schema changes. Each migration
+ * targets a single schema version and is applied inside the
+ * `onupgradeneeded` transaction, so devices already in the field move
+ * forward without wiping unsynced data.
+ *
+ * Subsystems can also register their own stores at runtime; those are
+ * reconciled after the migrations in the same upgrade.
+ */
+
+import { createCounter } from './pnCounter';
+
+// Types
+export interface IndexDefinition {
+  name: string;
+  keyPath: string | string[];
+  unique?: boolean;
+  multiEntry?: boolean;
+}
+
+export interface StoreDefinition {
+  name: string;
+  keyPath?: string;
+  indexes?: IndexDefinition[];
+  sync?: boolean; // Replicate writes to the server (default: true)
+}
+
+export type RecordTransform = (record: unknown) => unknown;
+
+export type MigrationStep =
+  | { type: 'createStore'; store: string; keyPath?: string; indexes?: IndexDefinition[] }
+  | { type: 'deleteStore'; store: string }
+  | { type: 'createIndex'; store: string; index: IndexDefinition }
+  | { type: 'deleteIndex'; store: string; index: string }
+  // Return the new record, `null` to delete it, or `undefined` to leave it untouched
+  | { type: 'transform'; store: string; transform: RecordTransform };
+
+export interface Migration {
+  version: number;
+  description: string;
+  steps: MigrationStep[];
+}
+
+export interface MigrationProgress {
+  fromVersion: number;
+  toVersion: number;
+  version: number;
+  description: string;
+  step: number;
+  totalSteps: number;
+  recordsProcessed?: number;
+}
+
+export type MigrationProgressCallback = (progress: MigrationProgress) => void;
+
+// Holds the applied schema version, independent of the IndexedDB version
+export const META_STORE = 'meta';
+const SCHEMA_VERSION_KEY = 'schemaVersion';
+
+// ==================== Registry ====================
+
+/**
+ * Append new migrations to the end of this list. Never edit or reorder a
+ * migration that has shipped - add a new version instead.
+ */
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Initial schema',
+    steps: [
+      {
+        type: 'createStore',
+        store: 'products',
+        indexes: [
+          { name: 'category', keyPath: 'data.category' },
+          { name: 'searchText', keyPath: 'data.searchText' },
+        ],
+      },
+      {
+        type: 'createStore',
+        store: 'orders',
+        indexes: [
+          { name: 'status', keyPath: 'data.status' },
+          { name: 'createdAt', keyPath: 'data.createdAt' },
+          { name: 'statusCreatedAt', keyPath: ['data.status', 'data.createdAt'] },
+        ],
+      },
+      { type: 'createStore', store: 'inventory' },
+      {
+        type: 'createStore',
+        store: 'syncQueue',
+        indexes: [{ name: 'timestamp', keyPath: 'timestamp' }],
+      },
+      { type: 'createStore', store: 'conflicts' },
+    ],
+  },
+  {
+    version: 2,
+    description: 'Index records by sync status',
+    steps: ['products', 'orders', 'inventory'].map((store) => ({
+      type: 'createIndex' as const,
+      store,
+      index: { name: 'syncStatus', keyPath: 'syncStatus' },
+    })),
+  },
+  {
+    version: 3,
+    description: 'Index tombstones for garbage collection',
+    steps: ['products', 'orders', 'inventory'].map((store) => ({
+      type: 'createIndex' as const,
+      store,
+      index: { name: 'deletedAt', keyPath: 'deletedAt' },
+    })),
+  },
+  {
+    version: 4,
+    description: 'Track inventory as PN-counters',
+    steps: [
+      {
+        type: 'transform',
+        store: 'inventory',
+        transform: (record) => {
+          const item = record as { data?: { quantity?: number; counter?: unknown } };
+          if (!item.data || item.data.counter) return undefined;
+
+          // Shared key, so devices migrating the same record don't double-count it
+          return {
+            ...item,
+            data: { ...item.data, counter: createCounter(item.data.quantity ?? 0) },
+          };
+        },
+      },
+    ],
+  },
+  {
+    version: 5,
+    description: 'Order, coalesce and dedupe queued writes',
+    steps: [
+      {
+        type: 'transform',
+        store: 'syncQueue',
+        transform: (record) => {
+          const op = record as { id: string; timestamp: number; retryCount?: number; sequence?: number };
+          if (op.sequence !== undefined) return undefined;
+
+          return {
+            ...op,
+            idempotencyKey: op.id,
+            sequence: op.timestamp,
+            nextAttemptAt: op.timestamp,
+            // Possibly already seen by the server, so never coalesce into it
+            ...(op.retryCount ? { lastAttemptAt: op.timestamp } : {}),
+          };
+        },
+      },
+      {
+        type: 'createIndex',
+        store: 'syncQueue',
+        index: { name: 'sequence', keyPath: 'sequence' },
+      },
+      {
+        type: 'createIndex',
+        store: 'syncQueue',
+        index: { name: 'entity', keyPath: ['store', 'data.id'] },
+      },
+    ],
+  },
+  {
+    version: 6,
+    description: 'Record sync activity for diagnostics',
+    steps: [
+      {
+        type: 'createStore',
+        store: 'syncLog',
+        indexes: [{ name: 'timestamp', keyPath: 'timestamp' }],
+      },
+    ],
+  },
+];
+
+export function getLatestVersion(migrations: Migration[] = MIGRATIONS): number {
+  return migrations.reduce((max, m) => Math.max(max, m.version), 0);
+}
+
+export function validateMigrations(migrations: Migration[] = MIGRATIONS): void {
+  migrations.forEach((migration, i) => {
+    if (!Number.isInteger(migration.version) || migration.version < 1) {
+      throw new Error(`Invalid migration version: ${migration.version}`);
+    }
+    if (i > 0 && migration.version <= migrations[i - 1].version) {
+      throw new Error(
+        `Migrations must be in strictly increasing order (${migrations[i - 1].version} -> ${migration.version})`
+      );
+    }
+  });
+}
+
+// ==================== Runner ====================
+
+/**
+ * Bring the database up to date from inside `onupgradeneeded`: apply pending
+ * migrations, then make sure every registered store and index exists.
+ */
+export async function upgradeSchema(
+  db: IDBDatabase,
+  transaction: IDBTransaction,
+  oldVersion: number,
+  registeredStores: StoreDefinition[],
+  onProgress?: MigrationProgressCallback
+): Promise<void> {
+  const meta = ensureStore(db, transaction, { name: META_STORE });
+  const recorded = await readSchemaVersion(meta);
+
+  // Before the meta store existed, the database version was the schema version
+  const fromVersion = recorded ?? oldVersion;
+  const toVersion = Math.max(fromVersion, getLatestVersion());
+
+  await runMigrations(db, transaction, fromVersion, toVersion, onProgress);
+
+  registeredStores.forEach((definition) => ensureStore(db, transaction, definition));
+
+  meta.put({ id: SCHEMA_VERSION_KEY, version: toVersion });
+}
+
+/**
+ * Check an open connection against the migrations and registered stores.
+ * Returns false when a version change is needed to reconcile the schema.
+ */
+export async function isSchemaCurrent(
+  db: IDBDatabase,
+  registeredStores: StoreDefinition[]
+): Promise<boolean> {
+  if (!db.objectStoreNames.contains(META_STORE)) return false;
+
+  const missingStore = registeredStores.some(
+    (definition) => !db.objectStoreNames.contains(definition.name)
+  );
+  if (missingStore) return false;
+
+  const storeNames = [META_STORE, ...registeredStores.map((d) => d.name)];
+  const transaction = db.transaction(storeNames, 'readonly');
+
+  const missingIndex = registeredStores.some((definition) => {
+    const { indexNames } = transaction.objectStore(definition.name);
+    return definition.indexes?.some((index) => !indexNames.contains(index.name)) ?? false;
+  });
+  if (missingIndex) return false;
+
+  const recorded = await readSchemaVersion(transaction.objectStore(META_STORE));
+  return recorded !== null && recorded >= getLatestVersion();
+}
+
+/**
+ * Create the store if it does not exist yet and add any missing indexes.
+ */
+export function ensureStore(
+  db: IDBDatabase,
+  transaction: IDBTransaction,
+  definition: StoreDefinition
+): IDBObjectStore {
+  // Stores may already exist on devices created before migrations were tracked
+  const store = db.objectStoreNames.contains(definition.name)
+    ? transaction.objectStore(definition.name)
+    : db.createObjectStore(definition.name, { keyPath: definition.keyPath ?? 'id' });
+
+  definition.indexes?.forEach((index) => createIndex(store, index));
+  return store;
+}
+
+/**
+ * Apply every migration with `oldVersion < version <= newVersion`, in order.
+ * Must be called from `onupgradeneeded` with the version change transaction.
+ */
+export async function runMigrations(
+  db: IDBDatabase,
+  transaction: IDBTransaction,
+  oldVersion: number,
+  newVersion: number,
+  onProgress?: MigrationProgressCallback,
+  migrations: Migration[] = MIGRATIONS
+): Promise<void> {
+  validateMigrations(migrations);
+
+  const pending = migrations.filter(
+    (m) => m.version > oldVersion && m.version <= newVersion
+  );
+
+  for (const migration of pending) {
+    console.log(`[DB] Applying migration v${migration.version}: ${migration.description}`);
+
+    for (let i = 0; i < migration.steps.length; i++) {
+      const recordsProcessed = await applyStep(db, transaction, migration.steps[i]);
+
+      onProgress?.({
+        fromVersion: oldVersion,
+        toVersion: newVersion,
+        version: migration.version,
+        description: migration.description,
+        step: i + 1,
+        totalSteps: migration.steps.length,
+        recordsProcessed,
+      });
+    }
+  }
+}
+
+async function applyStep(
+  db: IDBDatabase,
+  transaction: IDBTransaction,
+  step: MigrationStep
+): Promise<number | undefined> {
+  switch (step.type) {
+    case 'createStore':
+      ensureStore(db, transaction, {
+        name: step.store,
+        keyPath: step.keyPath,
+        indexes: step.indexes,
+      });
+      return undefined;
+
+    case 'deleteStore':
+      if (db.objectStoreNames.contains(step.store)) {
+        db.deleteObjectStore(step.store);
+      }
+      return undefined;
+
+    case 'createIndex':
+      createIndex(transaction.objectStore(step.store), step.index);
+      return undefined;
+
+    case 'deleteIndex': {
+      const store = transaction.objectStore(step.store);
+      if (store.indexNames.contains(step.index)) {
+        store.deleteIndex(step.index);
+      }
+      return undefined;
+    }
+
+    case 'transform':
+      return transformRecords(transaction.objectStore(step.store), step.transform);
+  }
+}
+
+function createIndex(store: IDBObjectStore, index: IndexDefinition): void {
+  if (store.indexNames.contains(index.name)) return;
+
+  store.createIndex(index.name, index.keyPath, {
+    unique: index.unique ?? false,
+    multiEntry: index.multiEntry ?? false,
+  });
+}
+
+function transformRecords(store: IDBObjectStore, transform: RecordTransform): Promise<number> {
+  return new Promise((resolve, reject) => {
+    let processed = 0;
+    const request = store.openCursor();
+
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) {
+        resolve(processed);
+        return;
+      }
+
+      try {
+        const next = transform(cursor.value);
+        if (next === null) {
+          cursor.delete();
+        } else if (next !== undefined) {
+          cursor.update(next);
+        }
+      } catch (error) {
+        reject(error);
+        return;
+      }
+
+      processed++;
+      cursor.continue();
+    };
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function readSchemaVersion(meta: IDBObjectStore): Promise<number | null> {
+  return new Promise((resolve, reject) => {
+    const request = meta.get(SCHEMA_VERSION_KEY);
+    request.onsuccess = () => resolve(request.result?.version ?? null);
+    request.onerror = () => reject(request.error);
+  });
+}
@@ -0,0 +1,66 @@
+/**
+ * Payload Encoding
+ *
+ * Shrinks sync traffic for terminals on metered links. Each encoding is
+ * used only once the server has listed it in `X-Sync-Capabilities`:
+ *
+ * - gzip:  request bodies are compressed with `CompressionStream`; the
+ *          server compresses its responses, which fetch decodes by itself
+ * - delta: an update goes up as the fields that changed since the server
+ *          version it was made on (`WireDelta`) instead of in full
+ *
+ * @example
+ * const delta = toWireDelta(item) ?? toWireFormat(item); // Full when the server copy is unknown
+ * const body = await gzip(JSON.stringify([delta])); // Sent with Content-Encoding: gzip
+ */
+
+import { isEqual } from './conflictResolvers';
+import type { DataItem } from './OfflineDataStore';
+import type { SyncCapability, WireDelta } from './protocol';
+
+// Configuration
+export const GZIP_MIN_BYTES = 1024; // Smaller bodies barely shrink
+
+// What this client can use; gzip needs Compression Streams
+export const CLIENT_CAPABILITIES: SyncCapability[] =
+  typeof CompressionStream === 'undefined' ? ['delta'] : ['gzip', 'delta'];
+
+// ==================== Compression ====================
+
+export async function gzip(text: string): Promise<Blob> {
+  const stream = new Blob([text]).stream().pipeThrough(new CompressionStream('gzip'));
+  return new Response(stream).blob();
+}
+
+// ==================== Delta Encoding ====================
+
+/**
+ * The item as changes to the server's copy, or null when that copy is not
+ * known (never synced, tombstones, data that is not an object)
+ */
+export function toWireDelta(item: DataItem): WireDelta | null {
+  const { data, base, serverVersion } = item;
+  if (serverVersion === undefined || item.deletedAt !== undefined) return null;
+  if (!isFields(data) || !isFields(base)) return null;
+
+  // Undefined fields are dropped by JSON, so they count as removed
+  const set: Record<string, unknown> = {};
+  Object.entries(data).forEach(([field, value]) => {
+    if (value !== undefined && !isEqual(value, base[field])) set[field] = value;
+  });
+  const unset = Object.keys(base).filter(
+    (field) => base[field] !== undefined && data[field] === undefined
+  );
+
+  return {
+    id: item.id,
+    $delta: { baseVersion: serverVersion, set, unset },
+    vectorClock: item.vectorClock,
+    deviceId: item.deviceId,
+    updatedAt: item.timestamp,
+  };
+}
+
+function isFields(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
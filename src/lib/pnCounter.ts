@@ -0,0 +1,93 @@
+/**
+ * PN-Counters
+ *
+ * Conflict-free replicated counter: every device only ever grows its own
+ * increment and decrement totals, and replicas merge by taking the maximum
+ * per device. Merging is commutative, associative and idempotent, so offline
+ * sales on several devices all survive sync.
+ */
+
+import type { ConflictResolver } from './conflictResolvers';
+
+// Types
+export interface PNCounter {
+  increments: Record<string, number>;
+  decrements: Record<string, number>;
+}
+
+// Records that carry a counter alongside its derived value
+export interface CounterRecord {
+  counter: PNCounter;
+  quantity: number;
+}
+
+// ==================== Operations ====================
+
+export function createCounter(initial = 0, deviceId = 'baseline'): PNCounter {
+  return initial > 0
+    ? { increments: { [deviceId]: initial }, decrements: {} }
+    : { increments: {}, decrements: initial < 0 ? { [deviceId]: -initial } : {} };
+}
+
+export function counterValue(counter: PNCounter): number {
+  return sum(counter.increments) - sum(counter.decrements);
+}
+
+/**
+ * Add `amount` (negative to subtract) on behalf of `deviceId`
+ */
+export function adjustCounter(counter: PNCounter, deviceId: string, amount: number): PNCounter {
+  if (!Number.isFinite(amount)) throw new Error(`Invalid counter amount: ${amount}`);
+  if (amount === 0) return counter;
+
+  const side = amount > 0 ? 'increments' : 'decrements';
+  return {
+    ...counter,
+    [side]: { ...counter[side], [deviceId]: (counter[side][deviceId] || 0) + Math.abs(amount) },
+  };
+}
+
+/**
+ * Pointwise maximum of both sides' per-device totals
+ */
+export function mergeCounters(a: PNCounter, b: PNCounter): PNCounter {
+  return {
+    increments: mergeTotals(a.increments, b.increments),
+    decrements: mergeTotals(a.decrements, b.decrements),
+  };
+}
+
+// ==================== Conflict Resolution ====================
+
+/**
+ * Resolver for stores of `CounterRecord`s: counters merge, the derived
+ * quantity is recomputed and other fields follow the remote version.
+ * A side without a counter (written before counters existed) counts from
+ * its quantity, like the migration that introduced them.
+ */
+export const counterMerge: ConflictResolver<CounterRecord> = ({ local, remote }) => {
+  const counter = mergeCounters(counterOf(local.data), counterOf(remote.data));
+
+  return {
+    resolution: 'merged',
+    data: { ...remote.data, counter, quantity: counterValue(counter) },
+  };
+};
+
+function counterOf(record: Partial<CounterRecord> | null | undefined): PNCounter {
+  return record?.counter ?? createCounter(record?.quantity ?? 0);
+}
+
+function mergeTotals(a: Record<string, number>, b: Record<string, number>): Record<string, number> {
+  const merged = { ...a };
+
+  for (const [deviceId, total] of Object.entries(b)) {
+    merged[deviceId] = Math.max(merged[deviceId] || 0, total);
+  }
+
+  return merged;
+}
+
+function sum(totals: Record<string, number>): number {
+  return Object.values(totals).reduce((total, value) => total + value, 0);
+}
@@ -0,0 +1,390 @@
+/**
+ * Sync Protocol v1
+ *
+ * The contract between clients and the sync server under `/api/v1`, shared
+ * by `SyncEngine`, the HTTP transport and the reference server in `server/`.
+ *
+ *   POST   /{entity}/batch            (WireRecord | WireDelta)[] -> BatchUploadResponse
+ *   GET    /{entity}/changes?since=<cursor>&limit=  -> ChangeFeedPage
+ *   GET    /{entity}/{id}                           -> WireRecord
+ *   PUT    /{entity}/{id}             WireRecord    -> WireRecord | 409 ConflictResponse
+ *   DELETE /{entity}/{id}             WireRecord?   -> WireRecord | 409 ConflictResponse
+ *   HEAD   /health
+ *   GET    /realtime?protocol=1&access_token=  WebSocket; server -> client RealtimeMessage
+ *
+ *   POST   /devices/enroll            EnrollmentRequest -> DeviceCredentials
+ *   POST   /devices/refresh           RefreshRequest    -> DeviceCredentials
+ *
+ * Every other request carries `Authorization: Bearer <accessToken>`. A
+ * missing or expired token is answered 401 `unauthorized` (refresh and
+ * retry); a revoked device gets 403 `device_revoked` and must enroll again.
+ *
+ * Clients list the encodings they can use in `X-Sync-Capabilities`; the
+ * server answers with the ones it supports too. With `gzip`, bodies of
+ * either side may be sent with `Content-Encoding: gzip`. With `delta`,
+ * updates may go up as a `WireDelta`; one whose base is not the stored
+ * version is rejected as `base_mismatch` and must be sent in full.
+ *
+ * Failures carry an `ErrorResponse`. Everything a client receives goes
+ * through the `parse*` functions below before it may touch a local store;
+ * they throw a `ValidationError` on any malformed payload.
+ */
+
+import { assertValid, validate, ValidationError, type FieldSchema } from './schema';
+import type { VectorClock } from './vectorClock';
+
+export const PROTOCOL_VERSION = 1;
+export const PROTOCOL_HEADER = 'X-Sync-Protocol';
+export const CAPABILITIES_HEADER = 'X-Sync-Capabilities';
+export const ACCESS_TOKEN_PARAM = 'access_token'; // Realtime only; browsers cannot set socket headers
+
+// Types
+
+// A record on the wire: its own fields plus sync metadata
+export interface WireRecord {
+  id: string;
+  version?: number; // Server version once stored
+  vectorClock?: VectorClock;
+  deviceId?: string;
+  updatedAt?: number; // Server time of the last change
+  deletedAt?: number; // Present on tombstones
+  acknowledgedBy?: string[];
+  [field: string]: unknown;
+}
+
+// An update as the fields that changed since the server version it was made on
+export interface WireDelta {
+  id: string;
+  $delta: {
+    baseVersion: number;
+    set: Record<string, unknown>; // Changed and added fields
+    unset: string[]; // Removed fields
+  };
+  vectorClock?: VectorClock;
+  deviceId?: string;
+  updatedAt?: number;
+}
+
+export type SyncCapability = 'gzip' | 'delta';
+
+// Opaque position in a change feed; send it back as `since`
+export type ChangeCursor = string;
+
+export interface ChangeFeedPage {
+  items: WireRecord[];
+  hasMore: boolean;
+  cursor?: ChangeCursor; // Continue after the last item (absent from older servers)
+  remaining?: number; // Changes after this page, for progress (absent from older servers)
+}
+
+export type ProtocolErrorCode =
+  | 'invalid_request'
+  | 'unsupported_protocol'
+  | 'not_found'
+  | 'method_not_allowed'
+  | 'conflict'
+  | 'payload_too_large'
+  | 'unauthorized'
+  | 'device_revoked'
+  | 'base_mismatch'
+  | 'internal';
+
+export interface ProtocolError {
+  code: ProtocolErrorCode;
+  message: string;
+}
+
+export interface ErrorResponse {
+  error: ProtocolError;
+}
+
+export interface ConflictResponse extends ErrorResponse {
+  current: WireRecord; // The version the writer has not seen
+}
+
+export type BatchItemResult =
+  | { id: string; status: 'accepted'; version: number; record: WireRecord }
+  | { id: string; status: 'conflict'; current: WireRecord }
+  | { id: string; status: 'rejected'; error: ProtocolError };
+
+export interface BatchUploadResponse {
+  results: BatchItemResult[];
+}
+
+// Pushed to realtime subscribers after every accepted write. `since` is the
+// entity's previous change-feed position: a client whose stored cursor is
+// still `since` has seen everything before this event and may move to `cursor`.
+export interface ChangeEvent {
+  type: 'changes';
+  entity: string;
+  items: WireRecord[];
+  since: ChangeCursor;
+  cursor: ChangeCursor;
+}
+
+export type RealtimeMessage = ChangeEvent;
+
+// Pairs a device with a location; codes are issued by the back office and work once
+export interface EnrollmentRequest {
+  code: string;
+  deviceId: string;
+  name?: string;
+}
+
+export interface RefreshRequest {
+  refreshToken: string;
+}
+
+// Refresh tokens are single use: every refresh returns a new pair
+export interface DeviceCredentials {
+  deviceId: string;
+  locationId: string;
+  accessToken: string;
+  refreshToken: string;
+  expiresAt: number; // When the access token stops being accepted (epoch ms)
+}
+
+// ==================== Schemas ====================
+
+const ERROR_CODES: ProtocolErrorCode[] = [
+  'invalid_request',
+  'unsupported_protocol',
+  'not_found',
+  'method_not_allowed',
+  'conflict',
+  'payload_too_large',
+  'unauthorized',
+  'device_revoked',
+  'base_mismatch',
+  'internal',
+];
+
+const WIRE_RECORD_SCHEMA: FieldSchema = {
+  type: 'object',
+  fields: {
+    id: { type: 'string' },
+    version: { type: 'number', optional: true },
+    vectorClock: { type: 'record', values: { type: 'number' }, optional: true },
+    deviceId: { type: 'string', optional: true },
+    updatedAt: { type: 'number', optional: true },
+    deletedAt: { type: 'number', optional: true },
+    acknowledgedBy: { type: 'array', items: { type: 'string' }, optional: true },
+  },
+};
+
+const WIRE_DELTA_SCHEMA: FieldSchema = {
+  type: 'object',
+  fields: {
+    id: { type: 'string' },
+    $delta: {
+      type: 'object',
+      fields: {
+        baseVersion: { type: 'number' },
+        set: { type: 'record', values: { type: 'any' } },
+        unset: { type: 'array', items: { type: 'string' } },
+      },
+    },
+    vectorClock: { type: 'record', values: { type: 'number' }, optional: true },
+    deviceId: { type: 'string', optional: true },
+    updatedAt: { type: 'number', optional: true },
+  },
+};
+
+const PROTOCOL_ERROR_SCHEMA: FieldSchema = {
+  type: 'object',
+  fields: {
+    code: { type: 'string', enum: ERROR_CODES },
+    message: { type: 'string' },
+  },
+};
+
+const CHANGE_FEED_SCHEMA: FieldSchema = {
+  type: 'object',
+  fields: {
+    items: { type: 'array', items: WIRE_RECORD_SCHEMA },
+    hasMore: { type: 'boolean' },
+    cursor: { type: 'string', optional: true },
+    remaining: { type: 'number', optional: true },
+  },
+};
+
+const REALTIME_MESSAGE_SCHEMA: FieldSchema = {
+  type: 'object',
+  fields: {
+    type: { type: 'string', enum: ['changes'] },
+    entity: { type: 'string' },
+    items: { type: 'array', items: WIRE_RECORD_SCHEMA },
+    since: { type: 'string' },
+    cursor: { type: 'string' },
+  },
+};
+
+const CONFLICT_RESPONSE_SCHEMA: FieldSchema = {
+  type: 'object',
+  fields: { current: WIRE_RECORD_SCHEMA },
+};
+
+const DEVICE_CREDENTIALS_SCHEMA: FieldSchema = {
+  type: 'object',
+  fields: {
+    deviceId: { type: 'string' },
+    locationId: { type: 'string' },
+    accessToken: { type: 'string' },
+    refreshToken: { type: 'string' },
+    expiresAt: { type: 'number' },
+  },
+};
+
+const BATCH_RESPONSE_SCHEMA: FieldSchema = {
+  type: 'object',
+  fields: { results: { type: 'array', items: { type: 'any' } } }, // Items checked by status
+};
+
+const BATCH_ITEM_SCHEMAS: Record<BatchItemResult['status'], FieldSchema> = {
+  accepted: {
+    type: 'object',
+    fields: { id: { type: 'string' }, version: { type: 'number' }, record: WIRE_RECORD_SCHEMA },
+  },
+  conflict: {
+    type: 'object',
+    fields: { id: { type: 'string' }, current: WIRE_RECORD_SCHEMA },
+  },
+  rejected: {
+    type: 'object',
+    fields: { id: { type: 'string' }, error: PROTOCOL_ERROR_SCHEMA },
+  },
+};
+
+// ==================== Validation ====================
+
+export function parseWireRecord(value: unknown): WireRecord {
+  assertValid('wire record', WIRE_RECORD_SCHEMA, value);
+  return value as WireRecord;
+}
+
+export function isWireDelta(value: unknown): boolean {
+  return typeof value === 'object' && value !== null && '$delta' in value;
+}
+
+export function parseWireDelta(value: unknown): WireDelta {
+  assertValid('wire delta', WIRE_DELTA_SCHEMA, value);
+  return value as WireDelta;
+}
+
+/**
+ * Validate a whole page up front, so a bad item cannot leave it half applied
+ */
+export function parseChangeFeed(value: unknown): ChangeFeedPage {
+  assertValid('change feed page', CHANGE_FEED_SCHEMA, value);
+  return value as ChangeFeedPage;
+}
+
+export function parseRealtimeMessage(value: unknown): RealtimeMessage {
+  assertValid('realtime message', REALTIME_MESSAGE_SCHEMA, value);
+  return value as RealtimeMessage;
+}
+
+export function parseDeviceCredentials(value: unknown): DeviceCredentials {
+  assertValid('device credentials', DEVICE_CREDENTIALS_SCHEMA, value);
+  return value as DeviceCredentials;
+}
+
+export function parseConflictResponse(value: unknown): ConflictResponse {
+  assertValid('conflict response', CONFLICT_RESPONSE_SCHEMA, value);
+  const { current, error } = value as { current: WireRecord; error?: unknown };
+
+  return {
+    current,
+    error: readProtocolError(error) ?? { code: 'conflict', message: 'Version conflict' },
+  };
+}
+
+/**
+ * Validate a batch upload response against the ids that were sent: every
+ * result must refer to one of them, and a record must keep its id.
+ */
+export function parseBatchResponse(value: unknown, sentIds: string[]): BatchUploadResponse {
+  assertValid('batch response', BATCH_RESPONSE_SCHEMA, value);
+
+  const sent = new Set(sentIds);
+  const results = (value as { results: unknown[] }).results;
+  const issues: string[] = [];
+
+  results.forEach((result, i) => {
+    const status = (result as { status?: unknown } | null)?.status;
+    const schema = BATCH_ITEM_SCHEMAS[status as BatchItemResult['status']];
+
+    if (typeof status !== 'string' || !schema) {
+      issues.push(`$.results[${i}].status must be accepted, conflict or rejected`);
+      return;
+    }
+
+    const itemIssues = validate(schema, result, `$.results[${i}]`);
+    if (itemIssues.length > 0) {
+      issues.push(...itemIssues);
+      return;
+    }
+
+    const item = result as BatchItemResult;
+    const returned =
+      item.status === 'accepted' ? item.record : item.status === 'conflict' ? item.current : null;
+
+    if (!sent.has(item.id)) {
+      issues.push(`$.results[${i}].id ${item.id} was not part of the batch`);
+    } else if (returned && returned.id !== item.id) {
+      issues.push(`$.results[${i}] returned record ${returned.id} for ${item.id}`);
+    }
+  });
+
+  if (issues.length > 0) {
+    throw new ValidationError('batch response', issues);
+  }
+
+  return { results: results as BatchItemResult[] };
+}
+
+/**
+ * Best-effort read of an error body, for messages; null when it has none
+ */
+export function readProtocolError(value: unknown): ProtocolError | null {
+  const error = (value as { error?: unknown } | null)?.error ?? value;
+
+  try {
+    assertValid('protocol error', PROTOCOL_ERROR_SCHEMA, error);
+    return error as ProtocolError;
+  } catch {
+    return null;
+  }
+}
+
+// ==================== Payload Encodings ====================
+
+const KNOWN_CAPABILITIES: SyncCapability[] = ['gzip', 'delta'];
+
+export function formatCapabilities(capabilities: Iterable<SyncCapability>): string {
+  return Array.from(capabilities).join(', ');
+}
+
+/**
+ * Capabilities named in a header value; unknown ones are ignored
+ */
+export function parseCapabilities(header: string | null | undefined): Set<SyncCapability> {
+  const named = (header ?? '').split(',').map((name) => name.trim());
+  return new Set(KNOWN_CAPABILITIES.filter((capability) => named.includes(capability)));
+}
+
+/**
+ * The full record a delta describes, given the version it was based on
+ */
+export function applyWireDelta(base: WireRecord, delta: WireDelta): WireRecord {
+  const record: WireRecord = {
+    ...base,
+    ...delta.$delta.set,
+    id: delta.id,
+    vectorClock: delta.vectorClock,
+    deviceId: delta.deviceId,
+    updatedAt: delta.updatedAt,
+  };
+  delta.$delta.unset.forEach((field) => delete record[field]);
+  return record;
+}
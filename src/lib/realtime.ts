@@ -0,0 +1,352 @@
+/**
+ * Realtime Change Subscription
+ *
+ * Keeps a WebSocket open to the sync server and hands every change event to
+ * `onChanges`. While the socket is down it falls back to calling `onPoll` on
+ * an interval, and reconnects with jittered exponential backoff so a fleet
+ * of terminals does not reconnect in lockstep after a server restart.
+ *
+ * @example
+ * // Tests: an in-process server instead of a real socket
+ * const server = new LocalRealtimeServer();
+ * const channel = new RealtimeChannel({
+ *   url: 'ws://test/realtime',
+ *   createSocket: server.createSocket,
+ *   onChanges: (event) => store.applyRemoteChanges(event.entity, event.items.map(fromWireFormat)),
+ *   onPoll: () => engine.sync(),
+ * });
+ * channel.start();
+ * server.broadcast({ type: 'changes', entity: 'orders', items: [order], since: '0', cursor: '1' });
+ * server.disconnectAll(); // -> polling until the next reconnect
+ */
+
+import { parseRealtimeMessage, PROTOCOL_VERSION, type ChangeEvent, type RealtimeMessage } from './protocol';
+import { browserNetwork, systemClock, type Clock, type NetworkMonitor, type TimerHandle } from './storage';
+
+// Types
+export type RealtimeStatus = 'stopped' | 'connecting' | 'open' | 'polling';
+
+// The part of the browser WebSocket the channel uses
+export interface RealtimeSocket {
+  onopen: ((event: Event) => void) | null;
+  onmessage: ((event: MessageEvent) => void) | null;
+  onclose: ((event: CloseEvent) => void) | null;
+  onerror: ((event: Event) => void) | null;
+  close(code?: number, reason?: string): void;
+}
+
+export type SocketFactory = (url: string) => RealtimeSocket;
+
+export interface RealtimeOptions {
+  url: string | (() => string); // A function is asked again on every (re)connect
+  onChanges: (event: ChangeEvent) => Promise<void> | void;
+  onPoll: () => Promise<void> | void; // While disconnected, and once per (re)connect to catch up
+  createSocket?: SocketFactory;
+  pollInterval?: number;
+  reconnectDelay?: number; // Backoff base
+  maxReconnectDelay?: number;
+  clock?: Clock;
+  network?: NetworkMonitor;
+  random?: () => number;
+}
+
+// Configuration
+const POLL_INTERVAL = 5000; // 5 seconds
+const RECONNECT_DELAY = 1000;
+const MAX_RECONNECT_DELAY = 60000; // 1 minute
+
+const browserSocket: SocketFactory = (url) => new WebSocket(url);
+
+/**
+ * `ws(s)://` URL of the realtime endpoint under an HTTP API base, relative
+ * bases resolving against the page
+ */
+export function realtimeUrl(apiBase: string): string {
+  const base = typeof location === 'undefined' ? 'http://localhost' : location.href;
+  const url = new URL(`${apiBase.replace(/\/$/, '')}/realtime`, base);
+
+  url.protocol = url.protocol === 'https:' ? 'wss:' : 'ws:';
+  url.searchParams.set('protocol', String(PROTOCOL_VERSION));
+  return url.toString();
+}
+
+// ==================== Channel ====================
+
+export class RealtimeChannel {
+  private options: RealtimeOptions;
+  private createSocket: SocketFactory;
+  private clock: Clock;
+  private network: NetworkMonitor;
+  private random: () => number;
+
+  private status: RealtimeStatus = 'stopped';
+  private socket: RealtimeSocket | null = null;
+  private reconnectAttempts = 0;
+  private reconnectTimer: TimerHandle | null = null;
+  private pollTimer: TimerHandle | null = null;
+  private unsubscribeNetwork: (() => void) | null = null;
+  private delivery: Promise<void> = Promise.resolve(); // Events are applied one at a time, in order
+  private listeners: Set<(status: RealtimeStatus) => void> = new Set();
+
+  constructor(options: RealtimeOptions) {
+    this.options = options;
+    this.createSocket = options.createSocket ?? browserSocket;
+    this.clock = options.clock ?? systemClock;
+    this.network = options.network ?? browserNetwork;
+    this.random = options.random ?? Math.random;
+  }
+
+  start(): void {
+    if (this.status !== 'stopped') return;
+
+    this.unsubscribeNetwork = this.network.subscribe((online) => {
+      if (online) {
+        // A new network usually means the old socket is dead; reconnect now
+        this.reconnectAttempts = 0;
+        this.cancelReconnect();
+        if (!this.socket) this.connect();
+      } else {
+        this.stopPolling();
+        this.setStatus('polling');
+      }
+    });
+
+    this.connect();
+  }
+
+  stop(): void {
+    if (this.status === 'stopped') return;
+
+    this.unsubscribeNetwork?.();
+    this.unsubscribeNetwork = null;
+    this.cancelReconnect();
+    this.stopPolling();
+    this.closeSocket();
+    this.reconnectAttempts = 0;
+    this.setStatus('stopped');
+  }
+
+  getStatus(): RealtimeStatus {
+    return this.status;
+  }
+
+  subscribe(listener: (status: RealtimeStatus) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  // ==================== Connection ====================
+
+  private connect(): void {
+    if (!this.network.isOnline()) {
+      // Nothing to poll either; the network listener reconnects when it returns
+      this.setStatus('polling');
+      return;
+    }
+
+    this.setStatus('connecting');
+
+    let socket: RealtimeSocket;
+    try {
+      const { url } = this.options;
+      socket = this.createSocket(typeof url === 'function' ? url() : url);
+    } catch (error) {
+      console.warn('[SYNC] Realtime connection failed:', error);
+      this.handleDisconnect();
+      return;
+    }
+
+    this.socket = socket;
+
+    socket.onopen = () => {
+      if (this.socket !== socket) return;
+
+      console.log('[SYNC] Realtime connected');
+      this.reconnectAttempts = 0;
+      this.stopPolling();
+      this.setStatus('open');
+
+      // Changes made while disconnected were never pushed
+      this.run(this.options.onPoll);
+    };
+
+    socket.onmessage = (event) => {
+      if (this.socket !== socket) return;
+      this.receive(event.data);
+    };
+
+    socket.onerror = () => {
+      // Followed by close, which does the recovery
+      console.warn('[SYNC] Realtime connection error');
+    };
+
+    socket.onclose = () => {
+      if (this.socket !== socket) return;
+      this.socket = null;
+      this.handleDisconnect();
+    };
+  }
+
+  private handleDisconnect(): void {
+    if (this.status === 'stopped') return;
+
+    this.startPolling();
+
+    const ceiling = Math.min(
+      this.options.maxReconnectDelay ?? MAX_RECONNECT_DELAY,
+      (this.options.reconnectDelay ?? RECONNECT_DELAY) * 2 ** this.reconnectAttempts
+    );
+    // Full jitter: anywhere between zero and the backoff ceiling
+    const delay = Math.round(this.random() * ceiling);
+    this.reconnectAttempts++;
+
+    console.log(`[SYNC] Realtime disconnected, polling and reconnecting in ${delay}ms`);
+
+    this.cancelReconnect();
+    this.reconnectTimer = this.clock.setTimeout(() => {
+      this.reconnectTimer = null;
+      if (this.network.isOnline()) this.connect();
+    }, delay);
+  }
+
+  private closeSocket(): void {
+    const socket = this.socket;
+    if (!socket) return;
+
+    this.socket = null;
+    socket.onopen = socket.onmessage = socket.onerror = socket.onclose = null;
+    socket.close(1000, 'Client stopped');
+  }
+
+  private cancelReconnect(): void {
+    if (this.reconnectTimer !== null) {
+      this.clock.clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+  }
+
+  // ==================== Delivery ====================
+
+  private receive(data: unknown): void {
+    let message: RealtimeMessage;
+
+    try {
+      message = parseRealtimeMessage(typeof data === 'string' ? JSON.parse(data) : data);
+    } catch (error) {
+      // A bad event must not touch the store; the next pull picks the change up
+      console.warn('[SYNC] Ignoring invalid realtime message:', error);
+      return;
+    }
+
+    this.delivery = this.delivery.then(() => this.options.onChanges(message)).catch((error) => {
+      console.error('[SYNC] Failed to apply realtime changes:', error);
+    });
+  }
+
+  // ==================== Polling Fallback ====================
+
+  private startPolling(): void {
+    this.setStatus('polling');
+    if (this.pollTimer !== null) return;
+
+    this.pollTimer = this.clock.setInterval(() => {
+      if (this.network.isOnline()) this.run(this.options.onPoll);
+    }, this.options.pollInterval ?? POLL_INTERVAL);
+  }
+
+  private stopPolling(): void {
+    if (this.pollTimer !== null) {
+      this.clock.clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+  }
+
+  private run(task: () => Promise<void> | void): void {
+    Promise.resolve()
+      .then(task)
+      .catch((error) => console.error('[SYNC] Realtime poll failed:', error));
+  }
+
+  private setStatus(status: RealtimeStatus): void {
+    if (status === this.status) return;
+    this.status = status;
+    this.listeners.forEach((listener) => listener(status));
+  }
+}
+
+// ==================== Local Stand-in ====================
+
+/**
+ * In-process replacement for the server end of the socket, for tests and
+ * demos: plug `createSocket` into a channel and drive it by hand.
+ */
+export class LocalRealtimeServer {
+  private sockets: Set<LocalSocket> = new Set();
+  private accepting = true;
+
+  readonly createSocket: SocketFactory = (url) => {
+    const socket = new LocalSocket(url, (closed) => this.sockets.delete(closed));
+
+    // Opens (or fails) asynchronously, like a real connection
+    queueMicrotask(() => {
+      if (this.accepting) {
+        this.sockets.add(socket);
+        socket.onopen?.(new Event('open'));
+      } else {
+        socket.onerror?.(new Event('error'));
+        socket.dispatchClose(1006);
+      }
+    });
+
+    return socket;
+  };
+
+  get connections(): number {
+    return this.sockets.size;
+  }
+
+  /**
+   * Refuse new connections, e.g. to keep a channel polling
+   */
+  setAccepting(accepting: boolean): void {
+    this.accepting = accepting;
+  }
+
+  broadcast(message: RealtimeMessage | string): void {
+    const data = typeof message === 'string' ? message : JSON.stringify(message);
+    this.sockets.forEach((socket) => socket.onmessage?.(new MessageEvent('message', { data })));
+  }
+
+  disconnectAll(): void {
+    Array.from(this.sockets).forEach((socket) => socket.drop());
+  }
+}
+
+class LocalSocket implements RealtimeSocket {
+  onopen: RealtimeSocket['onopen'] = null;
+  onmessage: RealtimeSocket['onmessage'] = null;
+  onclose: RealtimeSocket['onclose'] = null;
+  onerror: RealtimeSocket['onerror'] = null;
+  readonly url: string;
+  private onDrop: (socket: LocalSocket) => void;
+
+  constructor(url: string, onDrop: (socket: LocalSocket) => void) {
+    this.url = url;
+    this.onDrop = onDrop;
+  }
+
+  close(): void {
+    this.onDrop(this);
+  }
+
+  // Server-side close
+  drop(): void {
+    this.onDrop(this);
+    this.dispatchClose(1001);
+  }
+
+  dispatchClose(code: number): void {
+    // CloseEvent is not a global outside browsers
+    this.onclose?.({ type: 'close', code, reason: '', wasClean: code !== 1006 } as CloseEvent);
+  }
+}
@@ -0,0 +1,87 @@
+/**
+ * Request Pool
+ *
+ * Caps how many sync requests are in flight at once. Waiting requests start
+ * by priority (lower first), then in arrival order, so an urgent entity's
+ * pushes overtake the pages of a long catalog pull queued before them.
+ *
+ * @example
+ * const pool = new RequestPool(3);
+ * const response = await pool.run(0, () => fetch('/api/v1/orders/batch', init));
+ */
+
+interface Waiter {
+  priority: number;
+  order: number;
+  start: () => void;
+}
+
+export class RequestPool {
+  private limit: number;
+  private active = 0;
+  private arrivals = 0;
+  private waiting: Waiter[] = [];
+
+  constructor(limit: number) {
+    this.limit = Math.max(1, limit);
+  }
+
+  async run<T>(priority: number, task: () => Promise<T>): Promise<T> {
+    await this.acquire(priority);
+    try {
+      return await task();
+    } finally {
+      this.release();
+    }
+  }
+
+  private acquire(priority: number): Promise<void> {
+    if (this.active < this.limit) {
+      this.active++;
+      return Promise.resolve();
+    }
+
+    return new Promise((start) => {
+      this.waiting.push({ priority, order: this.arrivals++, start });
+      this.waiting.sort((a, b) => a.priority - b.priority || a.order - b.order);
+    });
+  }
+
+  private release(): void {
+    const next = this.waiting.shift();
+    if (next) {
+      // The slot passes straight to the next request
+      next.start();
+    } else {
+      this.active--;
+    }
+  }
+}
+
+/**
+ * Run `task` over `items` with at most `limit` running at once. Stops
+ * starting new items after the first failure and rejects with it.
+ */
+export async function forEachConcurrently<T>(
+  items: T[],
+  limit: number,
+  task: (item: T) => Promise<void>
+): Promise<void> {
+  let next = 0;
+  let failed = false;
+
+  const worker = async () => {
+    while (!failed && next < items.length) {
+      const item = items[next++];
+      try {
+        await task(item);
+      } catch (error) {
+        failed = true;
+        throw error;
+      }
+    }
+  };
+
+  const workers = Math.min(Math.max(1, limit), items.length);
+  await Promise.all(Array.from({ length: workers }, worker));
+}
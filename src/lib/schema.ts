@@ -0,0 +1,78 @@
+/**
+ * Runtime Schema Validation
+ *
+ * Minimal structural validator used to reject malformed writes before they
+ * reach IndexedDB. Unknown fields are allowed; declared fields are checked.
+ */
+
+// Types
+export type FieldSchema =
+  | { type: 'string' | 'number' | 'boolean'; optional?: boolean; enum?: readonly (string | number)[] }
+  | { type: 'array'; items: FieldSchema; optional?: boolean }
+  | { type: 'object'; fields: Record<string, FieldSchema>; optional?: boolean }
+  // Arbitrary keys, every value matching `values` (e.g. a vector clock)
+  | { type: 'record'; values: FieldSchema; optional?: boolean }
+  | { type: 'any'; optional?: boolean };
+
+export class ValidationError extends Error {
+  readonly issues: string[];
+
+  constructor(target: string, issues: string[]) {
+    super(`Invalid ${target}: ${issues.join('; ')}`);
+    this.name = 'ValidationError';
+    this.issues = issues;
+  }
+}
+
+// ==================== Validation ====================
+
+export function validate(schema: FieldSchema, value: unknown, path = '$'): string[] {
+  if (value === undefined || value === null) {
+    return schema.optional ? [] : [`${path} is required`];
+  }
+
+  switch (schema.type) {
+    case 'any':
+      return [];
+
+    case 'string':
+    case 'number':
+    case 'boolean':
+      if (typeof value !== schema.type || (schema.type === 'number' && Number.isNaN(value))) {
+        return [`${path} must be a ${schema.type}`];
+      }
+      if (schema.enum && !schema.enum.includes(value as string | number)) {
+        return [`${path} must be one of ${schema.enum.join(', ')}`];
+      }
+      return [];
+
+    case 'array':
+      if (!Array.isArray(value)) return [`${path} must be an array`];
+      return value.flatMap((item, i) => validate(schema.items, item, `${path}[${i}]`));
+
+    case 'object': {
+      if (typeof value !== 'object' || Array.isArray(value)) {
+        return [`${path} must be an object`];
+      }
+      const record = value as Record<string, unknown>;
+      return Object.entries(schema.fields).flatMap(([key, field]) =>
+        validate(field, record[key], `${path}.${key}`)
+      );
+    }
+
+    case 'record':
+      if (typeof value !== 'object' || Array.isArray(value)) {
+        return [`${path} must be an object`];
+      }
+      return Object.entries(value as Record<string, unknown>).flatMap(([key, item]) =>
+        validate(schema.values, item, `${path}.${key}`)
+      );
+  }
+}
+
+export function assertValid(target: string, schema: FieldSchema, value: unknown): void {
+  const issues = validate(schema, value);
+  if (issues.length > 0) {
+    throw new ValidationError(target, issues);
+  }
+}
@@ -0,0 +1,72 @@
+/**
+ * Service Worker Registration & Background Sync
+ *
+ * Page side of `src/serviceWorker.ts`. Production builds register `/sw.js`,
+ * which serves the app shell offline and drains `syncQueue` through
+ * Background Sync once connectivity returns, even with every tab closed.
+ * Dev servers skip registration so stale caches never hide code changes.
+ */
+
+import { browserNetwork, type NetworkMonitor } from './storage';
+
+// Types
+interface SyncManager {
+  register(tag: string): Promise<void>;
+}
+
+type SyncCapableRegistration = ServiceWorkerRegistration & { sync?: SyncManager };
+
+export interface ServiceWorkerOptions {
+  url?: string;
+  hasQueuedWrites: () => Promise<boolean>;
+  network?: NetworkMonitor;
+}
+
+// Configuration
+export const SYNC_QUEUE_TAG = 'pos-sync-queue';
+const SERVICE_WORKER_URL = '/sw.js';
+
+/**
+ * Register the service worker and ask for a Background Sync whenever
+ * queued writes could be stranded: when the network drops, and when the
+ * page is hidden (it may never come back). Resolves with the registration,
+ * or null where service workers are unavailable.
+ */
+export async function registerServiceWorker(
+  options: ServiceWorkerOptions
+): Promise<ServiceWorkerRegistration | null> {
+  if (typeof navigator === 'undefined' || !('serviceWorker' in navigator)) {
+    return null;
+  }
+
+  const registration: SyncCapableRegistration = await navigator.serviceWorker.register(
+    options.url ?? SERVICE_WORKER_URL
+  );
+  console.log('[SW] Service worker registered');
+
+  if (!registration.sync) {
+    // Safari and Firefox: the queue drains only while a tab is open
+    console.warn('[SW] Background Sync unavailable');
+    return registration;
+  }
+
+  const requestSync = async () => {
+    try {
+      if (await options.hasQueuedWrites()) {
+        await registration.sync!.register(SYNC_QUEUE_TAG);
+      }
+    } catch (error) {
+      console.warn('[SW] Background Sync registration failed:', error);
+    }
+  };
+
+  (options.network ?? browserNetwork).subscribe((online) => {
+    if (!online) requestSync();
+  });
+
+  document.addEventListener('visibilitychange', () => {
+    if (document.visibilityState === 'hidden') requestSync();
+  });
+
+  return registration;
+}
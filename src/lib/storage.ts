@@ -0,0 +1,133 @@
+/**
+ * Storage, Clock & Network Adapters
+ *
+ * Everything `OfflineDataStore` needs from its environment, injectable so
+ * the sync, conflict and retry logic can run outside a browser.
+ *
+ * @example
+ * // Tests and sandboxes: isolated in-memory database, manual connectivity
+ * const network = new ManualNetwork(false);
+ * const store = new OfflineDataStore({ adapter: memoryAdapter(), network, deviceId: 'test' });
+ *
+ * // Any other IndexedDB implementation works through the IndexedDB adapter
+ * const adapter = indexedDBAdapter({ databaseName: 'pos-demo', indexedDB: customFactory });
+ * new OfflineDataStore({ adapter });
+ */
+
+import { IDBFactory as MemoryIDBFactory, IDBKeyRange as MemoryIDBKeyRange } from 'fake-indexeddb';
+
+// Types
+export interface StorageAdapter {
+  readonly name: string;
+  readonly databaseName: string;
+  readonly indexedDB: IDBFactory;
+  readonly keyRange: typeof IDBKeyRange;
+}
+
+export interface IndexedDBAdapterOptions {
+  databaseName?: string;
+  indexedDB?: IDBFactory;
+  keyRange?: typeof IDBKeyRange;
+}
+
+export type TimerHandle = ReturnType<typeof setTimeout>;
+
+export interface Clock {
+  now(): number;
+  setTimeout(callback: () => void, ms: number): TimerHandle;
+  clearTimeout(handle: TimerHandle): void;
+  setInterval(callback: () => void, ms: number): TimerHandle;
+  clearInterval(handle: TimerHandle): void;
+}
+
+export interface NetworkMonitor {
+  isOnline(): boolean;
+  // Returns an unsubscribe function
+  subscribe(listener: (online: boolean) => void): () => void;
+}
+
+export const DEFAULT_DATABASE_NAME = 'pos-offline-store';
+
+// ==================== Storage ====================
+
+/**
+ * Browser IndexedDB, or any factory implementing the same API
+ */
+export function indexedDBAdapter(options: IndexedDBAdapterOptions = {}): StorageAdapter {
+  return {
+    name: options.indexedDB ? 'indexeddb (custom)' : 'indexeddb',
+    databaseName: options.databaseName ?? DEFAULT_DATABASE_NAME,
+    indexedDB: options.indexedDB ?? globalThis.indexedDB,
+    keyRange: options.keyRange ?? globalThis.IDBKeyRange,
+  };
+}
+
+/**
+ * Fresh in-memory database per call (fake-indexeddb); nothing survives a reload
+ */
+export function memoryAdapter(databaseName = DEFAULT_DATABASE_NAME): StorageAdapter {
+  return { name: 'memory', databaseName, indexedDB: new MemoryIDBFactory(), keyRange: MemoryIDBKeyRange };
+}
+
+// ==================== Clock ====================
+
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  setTimeout: (callback, ms) => setTimeout(callback, ms),
+  clearTimeout: (handle) => clearTimeout(handle),
+  setInterval: (callback, ms) => setInterval(callback, ms),
+  clearInterval: (handle) => clearInterval(handle),
+};
+
+// ==================== Network ====================
+
+/**
+ * `navigator.onLine` plus the `online`/`offline` events of the window, or
+ * of the worker global scope inside the service worker
+ */
+export const browserNetwork: NetworkMonitor = {
+  isOnline: () => (typeof navigator === 'undefined' ? true : navigator.onLine),
+
+  subscribe(listener) {
+    const scope = globalThis;
+    if (typeof scope.addEventListener !== 'function') return () => undefined;
+
+    const handleOnline = () => listener(true);
+    const handleOffline = () => listener(false);
+
+    scope.addEventListener('online', handleOnline);
+    scope.addEventListener('offline', handleOffline);
+
+    return () => {
+      scope.removeEventListener('online', handleOnline);
+      scope.removeEventListener('offline', handleOffline);
+    };
+  },
+};
+
+/**
+ * Connectivity switched by hand, for tests and demos
+ */
+export class ManualNetwork implements NetworkMonitor {
+  private online: boolean;
+  private listeners: Set<(online: boolean) => void> = new Set();
+
+  constructor(online = true) {
+    this.online = online;
+  }
+
+  isOnline(): boolean {
+    return this.online;
+  }
+
+  setOnline(online: boolean): void {
+    if (online === this.online) return;
+    this.online = online;
+    this.listeners.forEach((listener) => listener(online));
+  }
+
+  subscribe(listener: (online: boolean) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+}
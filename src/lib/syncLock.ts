@@ -0,0 +1,34 @@
+/**
+ * Sync Lock
+ *
+ * One Web Lock shared by every tab and the service worker. `SyncEngine`
+ * pushes, queue flushes and Background Sync all hold it while they talk to
+ * the server, so none of them ever send the same writes concurrently.
+ * `SyncEngine` pushes each entity's own records, so they hold it in shared
+ * mode and run side by side; everything else holds it exclusively.
+ * Without Web Locks (older browsers, Node) tasks simply run.
+ */
+
+export const SYNC_LOCK_NAME = 'pos-sync';
+
+export async function withSyncLock<T>(
+  task: () => Promise<T>,
+  mode: LockMode = 'exclusive'
+): Promise<T> {
+  return withLock(SYNC_LOCK_NAME, task, mode);
+}
+
+/**
+ * Hold any named lock across tabs and the service worker, e.g. while
+ * spending a single-use token
+ */
+export async function withLock<T>(
+  name: string,
+  task: () => Promise<T>,
+  mode: LockMode = 'exclusive'
+): Promise<T> {
+  const locks = typeof navigator === 'undefined' ? undefined : navigator.locks;
+  if (!locks) return task();
+
+  return await locks.request(name, { mode }, task);
+}
@@ -0,0 +1,224 @@
+/**
+ * Sync Audit Log
+ *
+ * Persisted timeline of what sync did on this device: every push and pull
+ * batch, realtime event, conflict, retry, dead letter, cancellation and
+ * failure, with the entity, record ids, duration and error involved. It
+ * backs the diagnostics screen and the support bundle exported from it.
+ *
+ * Entries are buffered and written in batches, so recording never slows a
+ * sync down, and the store is capped: once it holds more than `maxEntries`
+ * the oldest are dropped in the same transaction.
+ *
+ * @example
+ * offlineStore.syncLog.record({ event: 'pull', entity: 'orders', ids, durationMs, message: 'Pulled page' });
+ * const failures = await offlineStore.syncLog.list({ level: 'error', limit: 50 });
+ */
+
+import type { OfflineDataStore } from './OfflineDataStore';
+import type { Clock, TimerHandle } from './storage';
+
+// Types
+export type SyncLogEvent =
+  | 'push'
+  | 'pull'
+  | 'realtime'
+  | 'conflict'
+  | 'retry'
+  | 'dead-letter'
+  | 'cancel'
+  | 'error';
+
+export type SyncLogLevel = 'info' | 'warn' | 'error';
+
+export interface SyncLogEntry {
+  id: string; // Sorts in recording order within one context
+  timestamp: number;
+  event: SyncLogEvent;
+  level: SyncLogLevel;
+  message: string;
+  entity?: string;
+  ids?: string[]; // At most `maxIds`; `count` keeps the full number
+  count?: number;
+  durationMs?: number;
+  error?: string;
+}
+
+export type SyncLogInput = Omit<SyncLogEntry, 'id' | 'timestamp' | 'level'> & {
+  level?: SyncLogLevel; // Default depends on the event
+};
+
+export interface SyncLogQuery {
+  event?: SyncLogEvent;
+  level?: SyncLogLevel;
+  entity?: string;
+  since?: number;
+  limit?: number;
+}
+
+export interface SyncLogOptions {
+  clock: Clock;
+  onChange?: () => void; // After entries were written or cleared
+  maxEntries?: number;
+  maxIds?: number;
+  flushDelay?: number;
+}
+
+type LogDatabase = Pick<OfflineDataStore, 'executeTransaction'>;
+
+// Configuration
+export const SYNC_LOG_STORE = 'syncLog';
+const MAX_ENTRIES = 2000;
+const MAX_IDS = 100;
+const FLUSH_DELAY = 1000; // 1 second
+const DEFAULT_LIMIT = 500;
+
+const DEFAULT_LEVELS: Record<SyncLogEvent, SyncLogLevel> = {
+  push: 'info',
+  pull: 'info',
+  realtime: 'info',
+  conflict: 'warn',
+  retry: 'warn',
+  cancel: 'warn',
+  'dead-letter': 'error',
+  error: 'error',
+};
+
+export class SyncLog {
+  private db: LogDatabase;
+  private clock: Clock;
+  private onChange?: () => void;
+  private maxEntries: number;
+  private maxIds: number;
+  private flushDelay: number;
+  private buffer: SyncLogEntry[] = [];
+  private flushTimer: TimerHandle | null = null;
+  private writing: Promise<void> = Promise.resolve();
+  private sequence = 0;
+  private readonly instanceId = crypto.randomUUID().slice(0, 8);
+
+  constructor(db: LogDatabase, options: SyncLogOptions) {
+    this.db = db;
+    this.clock = options.clock;
+    this.onChange = options.onChange;
+    this.maxEntries = options.maxEntries ?? MAX_ENTRIES;
+    this.maxIds = options.maxIds ?? MAX_IDS;
+    this.flushDelay = options.flushDelay ?? FLUSH_DELAY;
+  }
+
+  /**
+   * Add an entry. Never throws and never waits for the database.
+   */
+  record(input: SyncLogInput): void {
+    const timestamp = this.clock.now();
+    const entry: SyncLogEntry = {
+      ...input,
+      // Breaks timestamp ties in the index, so pruning drops the oldest first
+      id: `${timestamp.toString(36).padStart(9, '0')}-${(this.sequence++).toString(36).padStart(6, '0')}-${this.instanceId}`,
+      timestamp,
+      level: input.level ?? DEFAULT_LEVELS[input.event],
+    };
+
+    if (input.ids) {
+      entry.count = input.count ?? input.ids.length;
+      entry.ids = input.ids.slice(0, this.maxIds);
+    }
+
+    this.buffer.push(entry);
+
+    if (!this.flushTimer) {
+      this.flushTimer = this.clock.setTimeout(() => {
+        this.flushTimer = null;
+        this.flush().catch((error) => console.warn('[SYNC] Could not write the sync log:', error));
+      }, this.flushDelay);
+    }
+  }
+
+  /**
+   * Write buffered entries now, e.g. before reading or closing the database
+   */
+  async flush(): Promise<void> {
+    if (this.flushTimer) {
+      this.clock.clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+
+    const entries = this.buffer;
+    this.buffer = [];
+
+    // One write at a time, so pruning always sees the previous batch
+    this.writing = this.writing
+      .catch(() => undefined)
+      .then(() => (entries.length > 0 ? this.write(entries) : undefined));
+
+    return this.writing;
+  }
+
+  /**
+   * Matching entries, newest first
+   */
+  async list(query: SyncLogQuery = {}): Promise<SyncLogEntry[]> {
+    await this.flush();
+
+    const limit = query.limit ?? DEFAULT_LIMIT;
+    const entries: SyncLogEntry[] = [];
+
+    await this.db.executeTransaction(SYNC_LOG_STORE, 'readonly', (objectStore) => {
+      const request = objectStore.index('timestamp').openCursor(null, 'prev');
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor || entries.length >= limit) return;
+
+        const entry: SyncLogEntry = cursor.value;
+        if (query.since !== undefined && entry.timestamp < query.since) return;
+
+        if (
+          (!query.event || entry.event === query.event) &&
+          (!query.level || entry.level === query.level) &&
+          (!query.entity || entry.entity === query.entity)
+        ) {
+          entries.push(entry);
+        }
+        cursor.continue();
+      };
+    });
+
+    return entries;
+  }
+
+  async clear(): Promise<void> {
+    this.buffer = [];
+    await this.flush();
+
+    await this.db.executeTransaction(SYNC_LOG_STORE, 'readwrite', (objectStore) => {
+      objectStore.clear();
+    });
+
+    this.onChange?.();
+  }
+
+  private async write(entries: SyncLogEntry[]): Promise<void> {
+    await this.db.executeTransaction(SYNC_LOG_STORE, 'readwrite', (objectStore) => {
+      entries.forEach((entry) => objectStore.put(entry));
+
+      // Requests run in order, so the count includes the entries just added
+      const countRequest = objectStore.count();
+      countRequest.onsuccess = () => {
+        let excess = countRequest.result - this.maxEntries;
+        if (excess <= 0) return;
+
+        const cursorRequest = objectStore.index('timestamp').openCursor();
+        cursorRequest.onsuccess = () => {
+          const cursor = cursorRequest.result;
+          if (!cursor || excess <= 0) return;
+
+          cursor.delete();
+          excess--;
+          cursor.continue();
+        };
+      };
+    });
+
+    this.onChange?.();
+  }
+}
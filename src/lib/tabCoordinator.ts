@@ -0,0 +1,185 @@
+/**
+ * Cross-Tab Coordination
+ *
+ * Every open POS tab shares one IndexedDB database but runs its own
+ * `offlineStore`, `syncEngine` and `printManager`. The coordinator elects a
+ * single leader tab with a Web Lock, which the browser releases when the
+ * tab closes or crashes so the next waiting tab takes over, and relays
+ * messages between tabs over a BroadcastChannel.
+ *
+ * Only the leader syncs, flushes the write queue and prints; followers
+ * forward those requests to it and replay its notifications locally.
+ *
+ * @example
+ * tabCoordinator.on<{ id: string }>('print:cancel', ({ id }) => cancel(id));
+ * if (!tabCoordinator.isLeader()) tabCoordinator.publish('print:cancel', { id });
+ */
+
+// Types
+export interface TabCoordinator {
+  readonly tabId: string;
+  isLeader(): boolean;
+  getLeaderId(): string | null;
+  // Called with this tab's role whenever leadership changes hands
+  onLeadershipChange(listener: (isLeader: boolean) => void): () => void;
+  // Deliver to every other tab; never echoed back to the sender
+  publish(topic: string, payload?: unknown): void;
+  on<T>(topic: string, handler: (payload: T, sender: string) => void): () => void;
+}
+
+export interface BrowserTabCoordinatorOptions {
+  name?: string; // Lock and channel name
+  locks?: LockManager; // Default: navigator.locks
+}
+
+interface TabMessage {
+  topic: string;
+  payload: unknown;
+  sender: string;
+}
+
+// Configuration
+const DEFAULT_NAME = 'pos-tabs';
+const LEADER_TOPIC = 'tabs:leader';
+const HELLO_TOPIC = 'tabs:hello';
+
+/**
+ * The only tab there is: always the leader, nothing to relay. Used outside
+ * the browser, where every store instance stands on its own.
+ */
+export const singleTab: TabCoordinator = {
+  tabId: 'single',
+  isLeader: () => true,
+  getLeaderId: () => 'single',
+  onLeadershipChange: () => () => undefined,
+  publish: () => undefined,
+  on: () => () => undefined,
+};
+
+// ==================== Browser ====================
+
+export class BrowserTabCoordinator implements TabCoordinator {
+  readonly tabId: string = crypto.randomUUID();
+  private name: string;
+  private channel: BroadcastChannel;
+  private leader = false;
+  private leaderId: string | null = null;
+  private releaseLock: (() => void) | null = null;
+  private leadershipListeners: Set<(isLeader: boolean) => void> = new Set();
+  private handlers: Map<string, Set<(payload: unknown, sender: string) => void>> = new Map();
+
+  constructor(options: BrowserTabCoordinatorOptions = {}) {
+    this.name = options.name ?? DEFAULT_NAME;
+    this.channel = new BroadcastChannel(this.name);
+    this.channel.onmessage = (event: MessageEvent<TabMessage>) => this.receive(event.data);
+
+    this.on<string>(LEADER_TOPIC, (tabId) => {
+      this.leaderId = tabId;
+      this.notifyLeadership();
+    });
+    this.on(HELLO_TOPIC, () => {
+      if (this.leader) this.publish(LEADER_TOPIC, this.tabId);
+    });
+
+    this.elect(options.locks ?? (typeof navigator === 'undefined' ? undefined : navigator.locks));
+    this.publish(HELLO_TOPIC);
+  }
+
+  isLeader(): boolean {
+    return this.leader;
+  }
+
+  getLeaderId(): string | null {
+    return this.leaderId;
+  }
+
+  onLeadershipChange(listener: (isLeader: boolean) => void): () => void {
+    this.leadershipListeners.add(listener);
+    return () => this.leadershipListeners.delete(listener);
+  }
+
+  publish(topic: string, payload?: unknown): void {
+    const message: TabMessage = { topic, payload, sender: this.tabId };
+    this.channel.postMessage(message);
+  }
+
+  on<T>(topic: string, handler: (payload: T, sender: string) => void): () => void {
+    if (!this.handlers.has(topic)) {
+      this.handlers.set(topic, new Set());
+    }
+    const handlers = this.handlers.get(topic)!;
+    const listener = handler as (payload: unknown, sender: string) => void;
+    handlers.add(listener);
+
+    return () => handlers.delete(listener);
+  }
+
+  /**
+   * Step down and stop relaying, e.g. before the page is torn down in tests
+   */
+  close(): void {
+    this.releaseLock?.();
+    this.channel.close();
+    this.setLeader(false);
+  }
+
+  // ==================== Election ====================
+
+  private elect(locks: LockManager | undefined): void {
+    if (!locks) {
+      // No Web Locks: every tab works alone, as before coordination existed
+      console.warn('[TABS] Web Locks unavailable, this tab acts as leader');
+      this.setLeader(true);
+      return;
+    }
+
+    // Queued until the current leader's tab goes away; held for this tab's lifetime
+    locks
+      .request(`${this.name}:leader`, () => {
+        return new Promise<void>((release) => {
+          this.releaseLock = release;
+          this.setLeader(true);
+        });
+      })
+      .catch((error) => console.error('[TABS] Leader election failed:', error));
+  }
+
+  private setLeader(leader: boolean): void {
+    if (leader === this.leader) return;
+    this.leader = leader;
+
+    if (leader) {
+      console.log(`[TABS] Tab ${this.tabId.slice(0, 8)} is now the leader`);
+      this.leaderId = this.tabId;
+      this.publish(LEADER_TOPIC, this.tabId);
+    } else if (this.leaderId === this.tabId) {
+      this.leaderId = null;
+    }
+
+    this.notifyLeadership();
+  }
+
+  // ==================== Messaging ====================
+
+  private receive(message: TabMessage): void {
+    if (!message || typeof message.topic !== 'string' || message.sender === this.tabId) return;
+
+    this.handlers.get(message.topic)?.forEach((handler) => {
+      try {
+        handler(message.payload, message.sender);
+      } catch (error) {
+        console.error(`[TABS] Handler for ${message.topic} failed:`, error);
+      }
+    });
+  }
+
+  private notifyLeadership(): void {
+    this.leadershipListeners.forEach((listener) => listener(this.leader));
+  }
+}
+
+// Export singleton
+export const tabCoordinator: TabCoordinator =
+  typeof window !== 'undefined' && typeof BroadcastChannel !== 'undefined'
+    ? new BrowserTabCoordinator()
+    : singleTab;
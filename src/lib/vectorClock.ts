@@ -0,0 +1,71 @@
+/**
+ * Vector Clocks
+ *
+ * Per-device logical counters used to order writes causally. A device bumps
+ * its own counter on every local write and merges clocks it receives, so two
+ * edits are either causally ordered or genuinely concurrent.
+ */
+
+// Types
+export type VectorClock = Record<string, number>;
+export type ClockOrdering = 'before' | 'after' | 'equal' | 'concurrent';
+
+// ==================== Operations ====================
+
+export function increment(clock: VectorClock, deviceId: string): VectorClock {
+  return { ...clock, [deviceId]: (clock[deviceId] || 0) + 1 };
+}
+
+/**
+ * Pointwise maximum: the smallest clock that has seen both histories
+ */
+export function mergeClocks(a: VectorClock, b: VectorClock): VectorClock {
+  const merged: VectorClock = { ...a };
+
+  for (const [deviceId, counter] of Object.entries(b)) {
+    merged[deviceId] = Math.max(merged[deviceId] || 0, counter);
+  }
+
+  return merged;
+}
+
+/**
+ * Order of `a` relative to `b`
+ */
+export function compareClocks(a: VectorClock, b: VectorClock): ClockOrdering {
+  let aAhead = false;
+  let bAhead = false;
+
+  const allDevices = new Set([...Object.keys(a), ...Object.keys(b)]);
+
+  for (const deviceId of allDevices) {
+    const va = a[deviceId] || 0;
+    const vb = b[deviceId] || 0;
+
+    if (va > vb) aAhead = true;
+    if (vb > va) bAhead = true;
+  }
+
+  if (aAhead && bAhead) return 'concurrent';
+  if (aAhead) return 'after';
+  if (bAhead) return 'before';
+  return 'equal';
+}
+
+// ==================== Predicates ====================
+
+export function happenedBefore(a: VectorClock, b: VectorClock): boolean {
+  return compareClocks(a, b) === 'before';
+}
+
+export function concurrent(a: VectorClock, b: VectorClock): boolean {
+  return compareClocks(a, b) === 'concurrent';
+}
+
+/**
+ * True when `a` has seen every event in `b` (after or equal)
+ */
+export function dominates(a: VectorClock, b: VectorClock): boolean {
+  const ordering = compareClocks(a, b);
+  return ordering === 'after' || ordering === 'equal';
+}
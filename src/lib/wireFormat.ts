@@ -0,0 +1,44 @@
+/**
+ * Wire Format
+ *
+ * Records travel as flat objects: the record fields plus sync metadata.
+ * Shared by the sync engine and the offline store's write transport.
+ */
+
+import type { DataItem } from './OfflineDataStore';
+import type { WireRecord } from './protocol';
+
+export type { WireRecord } from './protocol';
+
+// ==================== Conversion ====================
+
+export function toWireFormat(item: DataItem): WireRecord {
+  return {
+    ...item.data,
+    id: item.id,
+    version: item.version,
+    vectorClock: item.vectorClock,
+    deviceId: item.deviceId,
+    updatedAt: item.timestamp,
+    deletedAt: item.deletedAt,
+    acknowledgedBy: item.acknowledgedBy,
+  };
+}
+
+export function fromWireFormat(remoteData: WireRecord): DataItem {
+  const { version, vectorClock, deviceId, updatedAt, deletedAt, acknowledgedBy, ...data } =
+    remoteData;
+  delete data.syncStatus;
+
+  return {
+    id: remoteData.id,
+    data,
+    version: version || 0,
+    deviceId: deviceId || 'server',
+    timestamp: updatedAt || Date.now(),
+    vectorClock: vectorClock || {},
+    syncStatus: 'synced',
+    ...(version !== undefined && { serverVersion: version }),
+    ...(deletedAt !== undefined && { deletedAt, acknowledgedBy: acknowledgedBy ?? [] }),
+  };
+}
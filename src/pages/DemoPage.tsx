@@ -4,7 +4,9 @@
  */
 
 import { useEffect, useState } from 'react';
-import { offlineStore } from '../lib/OfflineDataStore';
+import { OfflineDataStore, offlineStore } from '../lib/OfflineDataStore';
+import { MemoryTransport } from '../lib/httpTransport';
+import { ManualNetwork, memoryAdapter } from '../lib/storage';
 import { printManager } from '../lib/PrintJobManager';
 import { syncEngine } from '../lib/SyncEngine';
 import { useSyncEngine } from '../hooks/useSyncEngine';
@@ -21,6 +23,8 @@ export function DemoPage() {
     orders: 0,
     printJobs: 0,
   });
+  const [sandbox, setSandbox] = useState<{ store: OfflineDataStore; network: ManualNetwork } | null>(null);
+  const [sandboxStats, setSandboxStats] = useState({ orders: 0, queued: 0, online: false });
 
   const isOnline = useOnlineStatus();
   const { syncStates, startAutoSync, stopAutoSync } = useSyncEngine();
@@ -59,7 +63,7 @@ export function DemoPage() {
       });
 
       // Start auto-sync
-      startAutoSync(30000); // 30 seconds
+      startAutoSync(); // Per-entity policy intervals
 
       setInitialized(true);
       console.log('[Demo] Initialization complete!');
@@ -72,6 +76,13 @@ export function DemoPage() {
     };
   }, [startAutoSync, stopAutoSync, registerPrinter]);
 
+  // The sandbox lives as long as the page
+  useEffect(() => {
+    return () => {
+      sandbox?.store.close();
+    };
+  }, [sandbox]);
+
   // Load stats
   useEffect(() => {
     const loadStats = async () => {
@@ -150,6 +161,40 @@ export function DemoPage() {
     await syncEngine.sync({ fullSync: true });
   };
 
+  // In-memory store with its own device ID, connectivity switch and server
+  // stand-in: nothing it does reaches the real store, server or device
+  const refreshSandboxStats = async (store: OfflineDataStore, network: ManualNetwork) => {
+    const orders = await store.query('orders');
+    const queued = await store.getQueuedWrites();
+    setSandboxStats({ orders: orders.length, queued: queued.length, online: network.isOnline() });
+  };
+
+  const handleSandboxOrder = async () => {
+    let current = sandbox;
+    if (!current) {
+      const network = new ManualNetwork(false);
+      const store = new OfflineDataStore({
+        adapter: memoryAdapter(),
+        network,
+        transport: new MemoryTransport(),
+        deviceId: `sandbox-${crypto.randomUUID()}`,
+      });
+      await store.init();
+      current = { store, network };
+      setSandbox(current);
+    }
+
+    const order = generateOrders(1, generateProducts(3))[0];
+    await current.store.collection('orders').put(order.id, order);
+    await refreshSandboxStats(current.store, current.network);
+  };
+
+  const handleSandboxToggleNetwork = async () => {
+    if (!sandbox) return;
+    sandbox.network.setOnline(!sandbox.network.isOnline());
+    await refreshSandboxStats(sandbox.store, sandbox.network);
+  };
+
   if (!initialized) {
     return (
       <div className={styles.loading}>
@@ -227,6 +272,39 @@ export function DemoPage() {
           </div>
         </section>
 
+        {/* Offline Sandbox */}
+        <section className={styles.section}>
+          <h2>In-Memory Sandbox</h2>
+          <div className={styles.buttonGroup}>
+            <button className={styles.button} onClick={handleSandboxOrder}>
+              Place Sandbox Order
+            </button>
+            <button
+              className={styles.button}
+              onClick={handleSandboxToggleNetwork}
+              disabled={!sandbox}
+            >
+              Go {sandboxStats.online ? 'Offline' : 'Online'}
+            </button>
+          </div>
+          <div className={styles.metrics}>
+            <div className={styles.metric}>
+              <span className={styles.metricLabel}>Network:</span>
+              <span className={styles.metricValue}>
+                {sandboxStats.online ? 'Online' : 'Offline'}
+              </span>
+            </div>
+            <div className={styles.metric}>
+              <span className={styles.metricLabel}>Orders:</span>
+              <span className={styles.metricValue}>{sandboxStats.orders}</span>
+            </div>
+            <div className={styles.metric}>
+              <span className={styles.metricLabel}>Queued writes:</span>
+              <span className={styles.metricValue}>{sandboxStats.queued}</span>
+            </div>
+          </div>
+        </section>
+
         {/* Sync Status */}
         <section className={styles.section}>
           <h2>Sync Status</h2>
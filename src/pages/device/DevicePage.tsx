@@ -0,0 +1,5 @@
+import DeviceEnrollment from "../../features/device/DeviceEnrollment";
+
+export default function DevicePage() {
+  return <DeviceEnrollment />;
+}
@@ -0,0 +1,5 @@
+import ConflictReview from "../../features/sync/ConflictReview";
+
+export default function ConflictsPage() {
+  return <ConflictReview />;
+}
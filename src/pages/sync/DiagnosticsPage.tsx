@@ -0,0 +1,5 @@
+import SyncDiagnostics from "../../features/sync/SyncDiagnostics";
+
+export default function DiagnosticsPage() {
+  return <SyncDiagnostics />;
+}
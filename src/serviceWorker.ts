@@ -0,0 +1,140 @@
+/**
+ * Service Worker
+ *
+ * Built into `/sw.js` by the `serviceWorker()` plugin in `vite.config.ts`,
+ * which replaces `__PRECACHE_MANIFEST__` with the files of the build.
+ *
+ * - install:  precache the build under a cache named after its version
+ * - activate: drop caches of older builds
+ * - fetch:    hashed assets cache-first, page loads network-first with the
+ *             cached app shell as offline fallback; `/api` is never cached
+ * - sync:     drain `syncQueue` while holding the sync lock, so it never
+ *             runs alongside `SyncEngine` or a tab's queue flush; sent with
+ *             the device's token, and skipped until the device is enrolled
+ */
+
+import { deviceAuth } from './lib/deviceAuth';
+import { offlineStore } from './lib/OfflineDataStore';
+import { SYNC_QUEUE_TAG } from './lib/serviceWorker';
+
+// Minimal service worker types; the app compiles against the DOM library
+interface ExtendableEvent extends Event {
+  waitUntil(promise: Promise<unknown>): void;
+}
+
+interface FetchEvent extends ExtendableEvent {
+  request: Request;
+  respondWith(response: Promise<Response>): void;
+}
+
+interface SyncEvent extends ExtendableEvent {
+  tag: string;
+  lastChance: boolean;
+}
+
+interface ServiceWorkerScope {
+  location: Location;
+  clients: { claim(): Promise<void> };
+  addEventListener(type: 'install' | 'activate', listener: (event: ExtendableEvent) => void): void;
+  addEventListener(type: 'fetch', listener: (event: FetchEvent) => void): void;
+  addEventListener(type: 'sync', listener: (event: SyncEvent) => void): void;
+}
+
+declare const __PRECACHE_MANIFEST__: { version: string; files: string[] };
+
+const sw = self as unknown as ServiceWorkerScope;
+const CACHE_PREFIX = 'pos-shell-';
+const CACHE_NAME = `${CACHE_PREFIX}${__PRECACHE_MANIFEST__.version}`;
+const SHELL_URL = '/index.html';
+const API_PREFIX = '/api/';
+
+// ==================== Lifecycle ====================
+
+sw.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(CACHE_NAME).then((cache) => cache.addAll(__PRECACHE_MANIFEST__.files))
+  );
+});
+
+sw.addEventListener('activate', (event) => {
+  event.waitUntil(
+    (async () => {
+      const names = await caches.keys();
+      await Promise.all(
+        names
+          .filter((name) => name.startsWith(CACHE_PREFIX) && name !== CACHE_NAME)
+          .map((name) => caches.delete(name))
+      );
+      await sw.clients.claim();
+    })()
+  );
+});
+
+// ==================== Offline Shell ====================
+
+sw.addEventListener('fetch', (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+
+  if (request.method !== 'GET' || url.origin !== sw.location.origin) return;
+  if (url.pathname.startsWith(API_PREFIX)) return;
+
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirst(request));
+    return;
+  }
+
+  event.respondWith(cacheFirst(request));
+});
+
+/**
+ * Fresh index.html when online, so a new build is picked up; the cached
+ * shell otherwise, for any route the client-side router handles
+ */
+async function networkFirst(request: Request): Promise<Response> {
+  try {
+    return await fetch(request);
+  } catch (error) {
+    const shell = await caches.match(SHELL_URL, { cacheName: CACHE_NAME });
+    if (shell) return shell;
+    throw error;
+  }
+}
+
+// Build assets have content hashes in their names, so a cached copy is never stale
+async function cacheFirst(request: Request): Promise<Response> {
+  const cached = await caches.match(request, { cacheName: CACHE_NAME });
+  return cached ?? fetch(request);
+}
+
+// ==================== Background Sync ====================
+
+sw.addEventListener('sync', (event) => {
+  if (event.tag !== SYNC_QUEUE_TAG) return;
+  event.waitUntil(flushSyncQueue(event.lastChance));
+});
+
+/**
+ * Rejecting makes the browser retry the sync later with its own backoff,
+ * so the event fails while writes remain queued (unless it is the last try)
+ */
+async function flushSyncQueue(lastChance: boolean): Promise<void> {
+  await offlineStore.init();
+
+  try {
+    // Enrolling flushes the queue from the app, so there is nothing to retry
+    if ((await deviceAuth.reload()) !== 'enrolled') {
+      console.log('[SW] Device is not enrolled, leaving the queue for later');
+      return;
+    }
+
+    const remaining = await offlineStore.flushQueuedWrites();
+    console.log(`[SW] Background Sync done, ${remaining} writes still queued`);
+
+    if (remaining > 0 && !lastChance) {
+      throw new Error(`${remaining} queued writes could not be sent yet`);
+    }
+  } finally {
+    await offlineStore.close();
+  }
+}
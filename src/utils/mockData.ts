@@ -5,6 +5,7 @@
 
 import type { Product } from '../app/store/slices/productsSlice';
 import type { Order, OrderItem } from '../features/orders/ordersSlice';
+import type { OfflineDataStore } from '../lib/OfflineDataStore';
 
 const categories = ['Coffee', 'Tea', 'Smoothies', 'Pastries', 'Sandwiches', 'Salads', 'Desserts', 'Beverages'];
 
@@ -132,7 +133,7 @@ export function generateOrders(count: number, products: Product[]): Order[] {
 }
 
 export async function populateOfflineStore(
-  store: any,
+  store: OfflineDataStore,
   productsCount: number = 100,
   ordersCount: number = 50
 ): Promise<void> {
@@ -143,7 +144,7 @@ export async function populateOfflineStore(
 
   // Store products
   for (const product of products) {
-    await store.put('products', product.id.toString(), {
+    await store.collection('products').put(product.id.toString(), {
       ...product,
       searchText: `${product.name} ${product.category}`.toLowerCase(),
     });
@@ -151,7 +152,7 @@ export async function populateOfflineStore(
 
   // Store orders
   for (const order of orders) {
-    await store.put('orders', order.id, order);
+    await store.collection('orders').put(order.id, order);
   }
 
   console.log('[Mock Data] Population complete!');
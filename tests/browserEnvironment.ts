@@ -0,0 +1,91 @@
+/**
+ * Browser Environment
+ *
+ * The globals the app's singletons read when they are created, for tests
+ * that import them: IndexedDB (fake-indexeddb), window events, localStorage
+ * and navigator. Import it before anything from `src/`. Relative `/api`
+ * requests go to the server given to `useApiOrigin`.
+ */
+
+import 'fake-indexeddb/auto';
+
+const events = new EventTarget();
+const storage = new Map<string, string>();
+const nodeFetch = globalThis.fetch;
+let apiOrigin: string | null = null;
+
+Object.assign(globalThis, {
+  window: globalThis,
+  addEventListener: events.addEventListener.bind(events),
+  removeEventListener: events.removeEventListener.bind(events),
+  dispatchEvent: events.dispatchEvent.bind(events),
+  localStorage: {
+    getItem: (key: string) => storage.get(key) ?? null,
+    setItem: (key: string, value: string) => void storage.set(key, String(value)),
+    removeItem: (key: string) => void storage.delete(key),
+    clear: () => storage.clear(),
+  },
+  fetch: (input: RequestInfo | URL, init?: RequestInit) => {
+    const relative = typeof input === 'string' && input.startsWith('/');
+    if (relative && !apiOrigin) throw new Error(`No API origin for ${input}; call useApiOrigin first`);
+    return nodeFetch(relative ? `${apiOrigin}${input}` : input, init);
+  },
+});
+
+Object.defineProperty(globalThis, 'navigator', {
+  value: { onLine: true, userAgent: 'vitest' },
+  configurable: true,
+  writable: true,
+});
+
+export function useApiOrigin(url: string): void {
+  apiOrigin = new URL(url).origin;
+}
+
+/**
+ * Web Locks for one process: exclusive, granted in request order. A lock is
+ * held until its callback settles, like a tab that closes releasing its own.
+ */
+export class FakeLockManager {
+  private held = new Set<string>();
+  private waiting = new Map<string, Array<() => void>>();
+
+  async request<T>(name: string, ...args: [LockGrantedCallback<T>] | [LockOptions, LockGrantedCallback<T>]): Promise<T> {
+    const callback = args[args.length - 1] as LockGrantedCallback<T>;
+    await this.acquire(name);
+    try {
+      return await callback({ name, mode: 'exclusive' });
+    } finally {
+      this.release(name);
+    }
+  }
+
+  async query(): Promise<LockManagerSnapshot> {
+    return {
+      held: Array.from(this.held, (name) => ({ name, mode: 'exclusive' as const })),
+      pending: Array.from(this.waiting, ([name, queue]) => queue.map(() => ({ name, mode: 'exclusive' as const }))).flat(),
+    };
+  }
+
+  private acquire(name: string): Promise<void> {
+    if (!this.held.has(name)) {
+      this.held.add(name);
+      return Promise.resolve();
+    }
+    return new Promise((grant) => {
+      const queue = this.waiting.get(name) ?? [];
+      queue.push(grant);
+      this.waiting.set(name, queue);
+    });
+  }
+
+  private release(name: string): void {
+    const next = this.waiting.get(name)?.shift();
+    if (next) {
+      next();
+    } else {
+      this.held.delete(name);
+      this.waiting.delete(name);
+    }
+  }
+}
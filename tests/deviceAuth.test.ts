@@ -0,0 +1,174 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { DeviceRegistry } from '../server/auth';
+import { startSyncServer, type RunningSyncServer } from '../server/syncServer';
+import { DeviceAuth, type DeviceAuthStatus } from '../src/lib/deviceAuth';
+import { AuthenticationError, HttpTransport } from '../src/lib/httpTransport';
+import { createDevice, ManualClock, settle, type TestDevice } from './helpers';
+
+let server: RunningSyncServer;
+let registry: DeviceRegistry;
+let clock: ManualClock;
+let serverAhead = 0; // How far the server's clock runs ahead of the device's
+let device: TestDevice;
+let auth: DeviceAuth;
+let requests: string[];
+let statuses: DeviceAuthStatus[];
+
+const MINUTE = 60 * 1000;
+
+function order(id: string) {
+  return {
+    id,
+    items: [{ id: 1, name: 'Latte', quantity: 1, price: 4.5 }],
+    total: 4.5,
+    status: 'pending',
+    createdAt: '2026-01-01T09:00:00.000Z',
+  };
+}
+
+async function enroll(): Promise<void> {
+  await auth.enroll(registry.createEnrollmentCode('store-1').code);
+  requests.length = 0;
+}
+
+function pullOrders(): Promise<Response> {
+  return auth.fetch(`${server.url}/orders/changes?limit=10`);
+}
+
+beforeAll(async () => {
+  registry = new DeviceRegistry({ now: () => clock.now() + serverAhead });
+  server = await startSyncServer({ auth: registry });
+});
+
+afterAll(() => server.close());
+
+beforeEach(async () => {
+  clock = new ManualClock();
+  serverAhead = 0;
+  device = await createDevice(`till-${crypto.randomUUID()}`, server.store, { clock });
+  requests = [];
+  statuses = [];
+
+  auth = new DeviceAuth(device.store, {
+    baseUrl: server.url,
+    clock,
+    fetch: (input, init) => {
+      requests.push(`${init?.method ?? 'GET'} ${new URL(String(input)).pathname.replace('/api/v1', '')}`);
+      return fetch(input, init);
+    },
+  });
+  auth.subscribe((status) => statuses.push(status));
+});
+
+afterEach(async () => {
+  await device.store.close();
+});
+
+describe('DeviceAuth', () => {
+  it('refreshes a token the server calls expired and sends the request again', async () => {
+    await enroll();
+    const expired = auth.getAccessToken();
+    serverAhead = 16 * MINUTE;
+
+    const response = await pullOrders();
+
+    expect(response.status).toBe(200);
+    expect(requests).toEqual(['GET /orders/changes', 'POST /devices/refresh', 'GET /orders/changes']);
+    expect(auth.getAccessToken()).not.toBe(expired);
+    expect(auth.getStatus()).toBe('enrolled');
+  });
+
+  it('refreshes a token about to expire before sending', async () => {
+    await enroll();
+    clock.advance(15 * MINUTE);
+
+    expect((await pullOrders()).status).toBe(200);
+    expect(requests).toEqual(['POST /devices/refresh', 'GET /orders/changes']);
+  });
+
+  it('stops on a revoked device and remembers it', async () => {
+    await enroll();
+    registry.revoke(device.store.getDeviceId());
+
+    const refused = await pullOrders().catch((error) => error);
+
+    expect(refused).toBeInstanceOf(AuthenticationError);
+    expect(refused).toMatchObject({ revoked: true, status: 403 });
+    expect(statuses).toEqual(['enrolled', 'revoked']);
+    expect(auth.getAccessToken()).toBeNull();
+
+    // Nothing goes out any more, and a reload still knows why
+    await expect(pullOrders()).rejects.toThrow('This device has been revoked');
+    expect(requests).toEqual(['GET /orders/changes']);
+    expect(await new DeviceAuth(device.store, { baseUrl: server.url, clock }).ready()).toBe('revoked');
+  });
+
+  it('learns of a revocation from the token refresh', async () => {
+    await enroll();
+    registry.revoke(device.store.getDeviceId());
+    clock.advance(15 * MINUTE);
+
+    await expect(pullOrders()).rejects.toMatchObject({ name: 'AuthenticationError', revoked: true });
+    expect(requests).toEqual(['POST /devices/refresh']);
+    expect(auth.getStatus()).toBe('revoked');
+  });
+
+  it('enrolls a revoked device again with a new code', async () => {
+    await enroll();
+    registry.revoke(device.store.getDeviceId());
+    await pullOrders().catch(() => undefined);
+
+    await enroll();
+
+    expect((await pullOrders()).status).toBe(200);
+    expect(statuses).toEqual(['enrolled', 'revoked', 'enrolled']);
+  });
+});
+
+describe('write queue without authorization', () => {
+  it('pauses the queue on an AuthenticationError instead of retrying the write', async () => {
+    device.network.setOnline(true);
+    device.transport.failWith = new AuthenticationError('This device has been revoked', true, 403);
+
+    await device.store.put('orders', 'o1', order('o1'));
+    await settle();
+
+    // No backoff retry a second later; only the 30 second background pass looks again
+    clock.advance(29 * 1000);
+    await settle();
+    expect(device.transport.idempotencyKeys).toHaveLength(1);
+
+    // However often it is tried, the write is never counted towards dead-lettering
+    for (let i = 0; i < 10; i++) {
+      clock.advance(30 * 1000);
+      await settle();
+    }
+    expect(device.transport.idempotencyKeys.length).toBeGreaterThan(1);
+    expect(await device.store.getQueuedWrites()).toEqual([expect.objectContaining({ retryCount: 0 })]);
+    expect(await device.store.listConflicts()).toEqual([]);
+    expect(await device.store.get('orders', 'o1')).toMatchObject({ syncStatus: 'pending' });
+
+    device.transport.failWith = null;
+    expect(await device.store.flushQueuedWrites()).toBe(0);
+    expect(server.store.get('orders', 'o1')).toMatchObject({ version: 1 });
+  });
+
+  it('keeps the writes of a revoked device queued until it enrolls again', async () => {
+    await enroll();
+    device.store.setTransport(new HttpTransport({ baseUrl: server.url, fetch: auth.fetch }));
+    registry.revoke(device.store.getDeviceId());
+
+    device.network.setOnline(true);
+    await device.store.put('orders', 'o2', order('o2'));
+    await settle();
+
+    expect(auth.getStatus()).toBe('revoked');
+    expect(await device.store.getQueuedWrites()).toHaveLength(1);
+    expect(await device.store.listConflicts()).toEqual([]);
+    expect(server.store.get('orders', 'o2')).toBeNull();
+
+    await enroll();
+    expect(await device.store.flushQueuedWrites()).toBe(0);
+    expect(server.store.get('orders', 'o2')).toMatchObject({ version: 1 });
+  });
+});
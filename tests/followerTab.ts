@@ -0,0 +1,24 @@
+/**
+ * Follower Tab
+ *
+ * Installs `FakeLockManager` as `navigator.locks` with the leader lock
+ * already held by another tab, so the app's singletons start as followers.
+ * Import it after `./browserEnvironment` and before anything from `src/`.
+ */
+
+import { FakeLockManager } from './browserEnvironment';
+
+export const locks = new FakeLockManager();
+
+Object.defineProperty(navigator, 'locks', { value: locks, configurable: true });
+
+// The coordinator's default lock name
+let releaseLeader: () => void = () => undefined;
+void locks.request('pos-tabs:leader', () => new Promise<void>((release) => (releaseLeader = release)));
+
+/**
+ * Close the tab holding leadership; the next waiting tab takes over
+ */
+export function closeLeaderTab(): void {
+  releaseLeader();
+}
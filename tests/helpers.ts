@@ -0,0 +1,160 @@
+/**
+ * Test Helpers
+ *
+ * Offline stores wired to an in-process reference server, with a clock and
+ * connectivity that tests move by hand.
+ */
+
+import { SyncStore, type WriteOutcome } from '../server/syncStore';
+import { OfflineDataStore } from '../src/lib/OfflineDataStore';
+import { TransportError, type SyncTransport, type WriteResult } from '../src/lib/httpTransport';
+import { ManualNetwork, memoryAdapter, type Clock, type TimerHandle } from '../src/lib/storage';
+import type { WireRecord } from '../src/lib/protocol';
+
+// ==================== Clock ====================
+
+interface Timer {
+  at: number;
+  callback: () => void;
+  every?: number;
+}
+
+/**
+ * Time only moves when `advance` is called; due timers fire in order
+ */
+export class ManualClock implements Clock {
+  private time: number;
+  private timers: Map<number, Timer> = new Map();
+  private nextHandle = 1;
+
+  constructor(start = Date.UTC(2026, 0, 1)) {
+    this.time = start;
+  }
+
+  now(): number {
+    return this.time;
+  }
+
+  setTimeout(callback: () => void, ms: number): TimerHandle {
+    return this.schedule({ at: this.time + ms, callback });
+  }
+
+  setInterval(callback: () => void, ms: number): TimerHandle {
+    return this.schedule({ at: this.time + ms, callback, every: ms });
+  }
+
+  clearTimeout(handle: TimerHandle): void {
+    this.timers.delete(handle as unknown as number);
+  }
+
+  clearInterval(handle: TimerHandle): void {
+    this.timers.delete(handle as unknown as number);
+  }
+
+  advance(ms: number): void {
+    const until = this.time + ms;
+
+    for (;;) {
+      const [handle, timer] =
+        Array.from(this.timers).sort(([, a], [, b]) => a.at - b.at)[0] ?? [];
+      if (!timer || timer.at > until) break;
+
+      this.time = timer.at;
+      if (timer.every) {
+        timer.at += timer.every;
+      } else {
+        this.timers.delete(handle!);
+      }
+      timer.callback();
+    }
+
+    this.time = until;
+  }
+
+  private schedule(timer: Timer): TimerHandle {
+    const handle = this.nextHandle++;
+    this.timers.set(handle, timer);
+    return handle as unknown as TimerHandle;
+  }
+}
+
+// ==================== Transport ====================
+
+/**
+ * Writes straight into a `SyncStore`, as the HTTP routes would. Set
+ * `failWith` to make every call throw instead.
+ */
+export class ServerTransport implements SyncTransport {
+  readonly server: SyncStore;
+  readonly idempotencyKeys: string[] = [];
+  failWith: Error | null = null;
+
+  constructor(server: SyncStore) {
+    this.server = server;
+  }
+
+  async put(store: string, record: WireRecord, options: { idempotencyKey: string }): Promise<WriteResult> {
+    this.check(options.idempotencyKey);
+    return toWriteResult(this.server.write(store, record));
+  }
+
+  async delete(store: string, tombstone: WireRecord, options: { idempotencyKey: string }): Promise<WriteResult> {
+    this.check(options.idempotencyKey);
+    const outcome = this.server.remove(store, tombstone.id, tombstone);
+    return outcome ? toWriteResult(outcome) : { status: 'applied' };
+  }
+
+  async get(store: string, id: string): Promise<WireRecord | null> {
+    this.check();
+    return this.server.get(store, id);
+  }
+
+  private check(idempotencyKey?: string): void {
+    if (idempotencyKey) this.idempotencyKeys.push(idempotencyKey);
+    if (this.failWith) throw this.failWith;
+  }
+}
+
+function toWriteResult(outcome: WriteOutcome): WriteResult {
+  switch (outcome.status) {
+    case 'accepted':
+      return { status: 'applied', record: outcome.record };
+    case 'conflict':
+      return { status: 'conflict', current: outcome.current };
+    case 'rejected':
+      throw new TransportError(`Server responded 400: ${outcome.error}`, false, 400);
+    case 'stale':
+      throw new TransportError('Server responded 409: base_mismatch', false, 409);
+  }
+}
+
+// ==================== Stores ====================
+
+export interface TestDevice {
+  store: OfflineDataStore;
+  network: ManualNetwork;
+  clock: ManualClock;
+  transport: ServerTransport;
+}
+
+/**
+ * An initialized offline store for `deviceId`, offline unless `online`
+ */
+export async function createDevice(
+  deviceId: string,
+  server = new SyncStore(),
+  { online = false, clock = new ManualClock() }: { online?: boolean; clock?: ManualClock } = {}
+): Promise<TestDevice> {
+  const network = new ManualNetwork(online);
+  const transport = new ServerTransport(server);
+  const store = new OfflineDataStore({ adapter: memoryAdapter(), clock, network, transport, deviceId });
+  await store.init();
+  return { store, network, clock, transport };
+}
+
+/**
+ * Wait for writes the store sends in the background
+ */
+export function settle(ms = 20): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
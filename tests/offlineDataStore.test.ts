@@ -0,0 +1,480 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { SyncStore } from '../server/syncStore';
+import { fieldMerge } from '../src/lib/conflictResolvers';
+import { OfflineDataStore, type DataItem } from '../src/lib/OfflineDataStore';
+import { TransportError } from '../src/lib/httpTransport';
+import { META_STORE, runMigrations, type MigrationProgress } from '../src/lib/migrations';
+import { toWireDelta } from '../src/lib/payloadEncoding';
+import { createCounter } from '../src/lib/pnCounter';
+import { ValidationError } from '../src/lib/schema';
+import { ManualNetwork, memoryAdapter, type StorageAdapter } from '../src/lib/storage';
+import { fromWireFormat, toWireFormat } from '../src/lib/wireFormat';
+import { createDevice, ManualClock, ServerTransport, settle, type TestDevice } from './helpers';
+
+const opened: OfflineDataStore[] = [];
+
+async function device(...args: Parameters<typeof createDevice>): Promise<TestDevice> {
+  const created = await createDevice(...args);
+  opened.push(created.store);
+  return created;
+}
+
+function order(id: string, fields: Record<string, unknown> = {}) {
+  return {
+    id,
+    items: [{ id: 1, name: 'Latte', quantity: 1, price: 4.5 }],
+    total: 4.5,
+    status: 'pending',
+    createdAt: '2026-01-01T09:00:00.000Z',
+    ...fields,
+  };
+}
+
+/**
+ * Everything the server has for `entity`, as the change feed delivers it
+ */
+async function pull({ store }: TestDevice, server: SyncStore, entity = 'orders'): Promise<void> {
+  const page = server.changes(entity, 0, 500);
+  await store.applyRemoteChanges(entity, page.items.map(fromWireFormat));
+}
+
+async function push({ store }: TestDevice, server: SyncStore, id: string, entity = 'orders') {
+  const item = (await store.get(entity, id, { includeDeleted: true }))!;
+  const outcome = server.write(entity, toWireFormat(item));
+  if (outcome.status === 'accepted') {
+    await store.markSynced(entity, id, outcome.record.version, item);
+  }
+  return outcome;
+}
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+/**
+ * The database as a release at schema v3 left it: no meta store, and
+ * inventory and queued writes in their old shapes
+ */
+async function openLegacyDatabase(adapter: StorageAdapter): Promise<void> {
+  const open = adapter.indexedDB.open(adapter.databaseName, 3);
+  open.onupgradeneeded = () => {
+    void runMigrations(open.result, open.transaction!, 0, 3);
+  };
+  const db = await request(open);
+
+  const transaction = db.transaction(['inventory', 'syncQueue'], 'readwrite');
+  transaction.objectStore('inventory').put({
+    id: 'p1',
+    data: { productId: 1, quantity: 7 },
+    version: 1,
+    deviceId: 'A',
+    timestamp: 100,
+    vectorClock: { A: 1 },
+    syncStatus: 'synced',
+  });
+  transaction.objectStore('syncQueue').put({
+    id: 'op1',
+    store: 'orders',
+    operation: 'put',
+    data: { id: 'o1', data: order('o1') },
+    timestamp: 100,
+    retryCount: 2,
+  });
+  await new Promise((resolve) => (transaction.oncomplete = resolve));
+  db.close();
+}
+
+/**
+ * Store names with their indexes, read from a fresh connection
+ */
+async function schemaOf(adapter: StorageAdapter): Promise<{ version: number; stores: Record<string, string[]> }> {
+  const db = await request(adapter.indexedDB.open(adapter.databaseName));
+  const names = Array.from(db.objectStoreNames);
+  const transaction = db.transaction(names, 'readonly');
+  const stores = Object.fromEntries(
+    names.map((name) => [name, Array.from(transaction.objectStore(name).indexNames)])
+  );
+  db.close();
+  return { version: db.version, stores };
+}
+
+function openStore(adapter: StorageAdapter): OfflineDataStore {
+  const store = new OfflineDataStore({
+    adapter,
+    deviceId: 'A',
+    clock: new ManualClock(),
+    network: new ManualNetwork(false),
+    transport: new ServerTransport(new SyncStore()),
+  });
+  opened.push(store);
+  return store;
+}
+
+afterEach(async () => {
+  await Promise.all(opened.splice(0).map((store) => store.close()));
+});
+
+describe('OfflineDataStore', () => {
+  describe('write queue', () => {
+    it('queues writes while offline and sends them once back online', async () => {
+      const server = new SyncStore();
+      const a = await device('A', server);
+
+      await a.store.put('orders', 'o1', order('o1'));
+      await a.store.put('orders', 'o1', order('o1', { total: 9 }));
+
+      expect(await a.store.getQueuedWrites()).toHaveLength(1);
+      expect(server.get('orders', 'o1')).toBeNull();
+
+      a.network.setOnline(true);
+      await settle();
+
+      expect(await a.store.getQueuedWrites()).toHaveLength(0);
+      expect(server.get('orders', 'o1')).toMatchObject({ total: 9, version: 1 });
+      expect(await a.store.get('orders', 'o1')).toMatchObject({ syncStatus: 'synced', serverVersion: 1 });
+    });
+
+    it('picks up connectivity that changed while the store was closed', async () => {
+      const server = new SyncStore();
+      const a = await device('A', server);
+
+      await a.store.put('orders', 'o1', order('o1'));
+      await a.store.close();
+      a.network.setOnline(true);
+      await a.store.init();
+
+      expect(await a.store.flushQueuedWrites()).toBe(0);
+      expect(server.get('orders', 'o1')).toMatchObject({ version: 1 });
+    });
+
+    it('refuses a record that does not match its collection schema', async () => {
+      const a = await device('A');
+
+      await expect(a.store.put('orders', 'o1', order('o1', { status: 'lost' }))).rejects.toThrow(ValidationError);
+      await expect(a.store.put('orders', 'o2', { id: 'o2', total: 4.5 })).rejects.toThrow(ValidationError);
+
+      expect(await a.store.get('orders', 'o1')).toBeNull();
+      expect(await a.store.getQueuedWrites()).toHaveLength(0);
+    });
+
+    it('backs off retryable failures and dead-letters them after the last attempt', async () => {
+      const a = await device('A');
+      a.transport.failWith = new TransportError('Server responded 503', true, 503);
+
+      await a.store.put('orders', 'o1', order('o1'));
+      expect(await a.store.flushQueuedWrites()).toBe(1); // Offline: still queued
+
+      a.network.setOnline(true);
+      await settle();
+
+      const [queued] = await a.store.getQueuedWrites();
+      expect(queued).toMatchObject({ retryCount: 1, nextAttemptAt: a.clock.now() + 1000 });
+
+      for (const delay of [1000, 2000, 4000, 8000]) {
+        a.clock.advance(delay);
+        await settle();
+      }
+
+      expect(await a.store.getQueuedWrites()).toHaveLength(0);
+      expect(await a.store.listConflicts()).toEqual([
+        expect.objectContaining({ kind: 'dead-letter', retryCount: 5, error: 'Server responded 503' }),
+      ]);
+    });
+
+    it('sends online writes through the queue under one idempotency key', async () => {
+      const server = new SyncStore();
+      const a = await device('A', server, { online: true });
+      a.transport.failWith = new TransportError('Server responded 503', true, 503);
+
+      await a.store.put('orders', 'o1', order('o1'));
+      await settle();
+      expect(server.get('orders', 'o1')).toBeNull();
+
+      a.transport.failWith = null;
+      a.clock.advance(1000);
+      await settle();
+
+      expect(server.get('orders', 'o1')).toMatchObject({ version: 1 });
+      expect(a.transport.idempotencyKeys).toHaveLength(2);
+      expect(new Set(a.transport.idempotencyKeys).size).toBe(1);
+    });
+
+    it('dead-letters writes the server rejects without retrying them', async () => {
+      const a = await device('A');
+      a.transport.failWith = new TransportError('Server responded 400: bad total', false, 400);
+
+      await a.store.put('orders', 'o1', order('o1'));
+      a.network.setOnline(true);
+      await settle();
+
+      expect(await a.store.getQueuedWrites()).toHaveLength(0);
+      expect(await a.store.listConflicts()).toEqual([
+        expect.objectContaining({ kind: 'dead-letter', retryCount: 1 }),
+      ]);
+    });
+
+    it('settles a write conflict with the version the server holds', async () => {
+      const server = new SyncStore();
+      const a = await device('A', server);
+      const b = await device('B', server);
+
+      await a.store.put('orders', 'o1', order('o1'));
+      await push(a, server, 'o1');
+      await pull(b, server);
+
+      // Both edit different fields of the same order
+      await a.store.put('orders', 'o1', order('o1', { status: 'ready' }));
+      await push(a, server, 'o1');
+      await b.store.put('orders', 'o1', order('o1', { total: 12 }));
+
+      let resolverRuns = 0;
+      b.store.registerConflictResolver<unknown>('orders', (context) => {
+        resolverRuns++;
+        return fieldMerge()(context);
+      });
+
+      b.network.setOnline(true);
+      await settle();
+
+      expect(resolverRuns).toBe(1);
+      expect(server.get('orders', 'o1')).toMatchObject({ status: 'ready', total: 12 });
+      expect(await b.store.get('orders', 'o1')).toMatchObject({
+        data: expect.objectContaining({ status: 'ready', total: 12 }),
+        syncStatus: 'synced',
+      });
+    });
+  });
+
+  describe('push results', () => {
+    it('takes a rejected record out of pending until its dead letter is retried', async () => {
+      const a = await device('A');
+
+      await a.store.put('orders', 'o1', order('o1'));
+      await a.store.recordRejectedWrite('orders', 'o1', 'total must be a number');
+
+      expect(await a.store.get('orders', 'o1')).toMatchObject({ syncStatus: 'conflict' });
+      const [deadLetter] = await a.store.listConflicts();
+      expect(deadLetter).toMatchObject({ kind: 'dead-letter', error: 'total must be a number' });
+
+      await a.store.retryDeadLetter(deadLetter.id);
+      expect(await a.store.get('orders', 'o1')).toMatchObject({ syncStatus: 'pending' });
+    });
+  });
+
+  describe('remote changes', () => {
+    it('fast-forwards to newer server versions and keeps unpushed local edits', async () => {
+      const server = new SyncStore();
+      const a = await device('A', server);
+      const b = await device('B', server);
+
+      await a.store.put('orders', 'o1', order('o1'));
+      await push(a, server, 'o1');
+      await pull(b, server);
+
+      expect(await b.store.get('orders', 'o1')).toMatchObject({ syncStatus: 'synced', data: order('o1') });
+
+      // B's edit already includes the server version
+      await b.store.put('orders', 'o1', order('o1', { total: 7 }));
+      const [result] = await b.store.applyRemoteChanges('orders', [fromWireFormat(server.get('orders', 'o1')!)]);
+
+      expect(result.outcome).toBe('local-newer');
+      expect(await b.store.get('orders', 'o1')).toMatchObject({ syncStatus: 'pending', data: { total: 7 } });
+    });
+
+    it('merges concurrent edits to different order fields', async () => {
+      const server = new SyncStore();
+      const a = await device('A', server);
+      const b = await device('B', server);
+
+      await a.store.put('orders', 'o1', order('o1'));
+      await push(a, server, 'o1');
+      await pull(b, server);
+
+      await a.store.put('orders', 'o1', order('o1', { status: 'preparing' }));
+      await push(a, server, 'o1');
+      await b.store.put('orders', 'o1', order('o1', { total: 6 }));
+      await pull(b, server);
+
+      const merged = (await b.store.get('orders', 'o1')) as DataItem;
+      expect(merged.data).toMatchObject({ status: 'preparing', total: 6 });
+      expect(merged.syncStatus).toBe('pending');
+      expect(merged.vectorClock).toEqual({ A: 2, B: 2 });
+    });
+
+    it('sends the merged copy as a delta on the version it was merged with', async () => {
+      const server = new SyncStore();
+      const a = await device('A', server);
+      const b = await device('B', server);
+
+      await a.store.put('orders', 'o1', order('o1'));
+      await push(a, server, 'o1');
+      await pull(b, server);
+
+      await a.store.put('orders', 'o1', order('o1', { status: 'preparing' }));
+      await push(a, server, 'o1');
+      await b.store.put('orders', 'o1', order('o1', { total: 6 }));
+      await pull(b, server);
+
+      const merged = (await b.store.get('orders', 'o1'))!;
+      const delta = toWireDelta(merged)!;
+      expect(delta.$delta).toMatchObject({ baseVersion: 2, set: { total: 6 } });
+      expect(server.patch('orders', delta).status).toBe('accepted');
+      expect(server.get('orders', 'o1')).toMatchObject({ status: 'preparing', total: 6, version: 3 });
+    });
+
+    it('files a manual conflict when both sides changed the same field', async () => {
+      const server = new SyncStore();
+      const a = await device('A', server);
+      const b = await device('B', server);
+
+      await a.store.put('orders', 'o1', order('o1'));
+      await push(a, server, 'o1');
+      await pull(b, server);
+
+      await a.store.put('orders', 'o1', order('o1', { total: 5 }));
+      await push(a, server, 'o1');
+      await b.store.put('orders', 'o1', order('o1', { total: 6 }));
+      await pull(b, server);
+
+      const [conflict] = await b.store.listConflicts();
+      expect(conflict).toMatchObject({ kind: 'conflict', entityId: 'o1', resolution: 'manual' });
+      expect(await b.store.get('orders', 'o1')).toMatchObject({ syncStatus: 'conflict', data: { total: 6 } });
+
+      const resolved = await b.store.resolveManualConflict(conflict.id, order('o1', { total: 5.5 }));
+      expect(resolved).toMatchObject({ syncStatus: 'pending', vectorClock: { A: 2, B: 2 } });
+      expect(await b.store.listConflicts()).toHaveLength(0);
+    });
+
+    it('rejects a page with a record that does not match the schema', async () => {
+      const a = await device('A');
+      const page = [
+        fromWireFormat({ ...order('o1'), version: 1, vectorClock: { B: 1 }, deviceId: 'B' }),
+        fromWireFormat({ ...order('o2', { total: 'free' }), version: 1, vectorClock: { B: 2 }, deviceId: 'B' }),
+      ];
+
+      await expect(a.store.applyRemoteChanges('orders', page, '10')).rejects.toThrow(ValidationError);
+      expect(await a.store.get('orders', 'o1')).toBeNull();
+      expect(await a.store.getSyncCursor('orders')).toBeNull();
+    });
+
+    it('moves the change-feed cursor with each page, unless another page got there first', async () => {
+      const a = await device('A');
+      const remote = fromWireFormat({ ...order('o1'), version: 1, vectorClock: { B: 1 }, deviceId: 'B' });
+
+      await a.store.applyRemoteChanges('orders', [remote], '10');
+      expect(await a.store.getSyncCursor('orders')).toBe('10');
+
+      // A realtime push that assumed the feed was still at 5
+      await a.store.applyRemoteChanges('orders', [remote], '20', '5');
+      expect(await a.store.getSyncCursor('orders')).toBe('10');
+
+      await a.store.applyRemoteChanges('orders', [remote], '20', '10');
+      expect(await a.store.getSyncCursor('orders')).toBe('20');
+    });
+  });
+
+  describe('deletes', () => {
+    it('keeps tombstones until every known device has acknowledged them', async () => {
+      const server = new SyncStore();
+      const a = await device('A', server);
+      const b = await device('B', server);
+
+      await a.store.put('orders', 'o1', order('o1'));
+      await push(a, server, 'o1');
+      await b.store.put('orders', 'o2', order('o2'));
+      await push(b, server, 'o2');
+      await pull(a, server);
+      await pull(b, server);
+
+      await a.store.delete('orders', 'o1');
+      expect(await a.store.get('orders', 'o1')).toBeNull();
+      expect(await a.store.get('orders', 'o1', { includeDeleted: true })).toMatchObject({ syncStatus: 'pending' });
+
+      await push(a, server, 'o1');
+      await a.store.acknowledgeDelete('orders', 'o1');
+      expect(await a.store.collectTombstones()).toBe(0); // B has not seen it yet
+
+      // B receives the delete and reports that it has
+      await pull(b, server);
+      expect(await b.store.get('orders', 'o1', { includeDeleted: true })).toMatchObject({
+        syncStatus: 'pending',
+        acknowledgedBy: expect.arrayContaining(['B']),
+      });
+      await push(b, server, 'o1');
+      await b.store.acknowledgeDelete('orders', 'o1');
+      expect(server.get('orders', 'o1')?.acknowledgedBy).toEqual(expect.arrayContaining(['A', 'B']));
+
+      await pull(a, server);
+      expect(await a.store.collectTombstones()).toBe(1);
+      expect(await b.store.collectTombstones()).toBe(1);
+    });
+  });
+
+  describe('schema migrations', () => {
+    it('upgrades a v3 database in place, keeping and transforming its records', async () => {
+      const adapter = memoryAdapter('legacy');
+      await openLegacyDatabase(adapter);
+      const store = openStore(adapter);
+
+      const progress: MigrationProgress[] = [];
+      await store.init({ onMigrationProgress: (step) => progress.push(step) });
+
+      expect(progress.map(({ version, step }) => `v${version}.${step}`)).toEqual(['v4.1', 'v5.1', 'v5.2', 'v5.3', 'v6.1']);
+      expect(await store.get('inventory', 'p1')).toMatchObject({
+        data: { productId: 1, quantity: 7, counter: createCounter(7) },
+      });
+      expect(await store.getQueuedWrites()).toEqual([
+        expect.objectContaining({ id: 'op1', idempotencyKey: 'op1', sequence: 100, nextAttemptAt: 100, lastAttemptAt: 100 }),
+      ]);
+
+      await store.close();
+      const { stores } = await schemaOf(adapter);
+      expect(stores.syncQueue).toEqual(expect.arrayContaining(['timestamp', 'sequence', 'entity']));
+      expect(stores.orders).toEqual(expect.arrayContaining(['statusCreatedAt', 'syncStatus', 'deletedAt']));
+      expect(stores).toHaveProperty('syncLog');
+      expect(stores).toHaveProperty(META_STORE);
+    });
+
+    it('opens a new database version for stores registered after init', async () => {
+      const adapter = memoryAdapter('registered');
+      const store = openStore(adapter);
+      await store.init();
+      await store.close();
+      const before = (await schemaOf(adapter)).version;
+      await store.init();
+
+      store.registerStore({ name: 'receipts', sync: false, indexes: [{ name: 'printedAt', keyPath: 'data.printedAt' }] });
+      await store.init();
+      await store.put('receipts', 'r1', { printedAt: 1 });
+      expect(await store.get('receipts', 'r1')).toMatchObject({ data: { printedAt: 1 } });
+
+      await store.close();
+      const { version, stores } = await schemaOf(adapter);
+      expect(version).toBe(before + 1);
+      expect(stores.receipts).toEqual(['printedAt']);
+    });
+  });
+
+  describe('inventory counters', () => {
+    it('keeps concurrent stock adjustments from both devices', async () => {
+      const server = new SyncStore();
+      const a = await device('A', server);
+      const b = await device('B', server);
+      const inventory = a.store.collection('inventory');
+
+      await inventory.put('p1', { productId: 1, quantity: 10, counter: { increments: { baseline: 10 }, decrements: {} } });
+      await push(a, server, 'p1', 'inventory');
+      await pull(b, server, 'inventory');
+
+      await a.store.put('inventory', 'p1', { productId: 1, quantity: 8, counter: { increments: { baseline: 10 }, decrements: { A: 2 } } });
+      await push(a, server, 'p1', 'inventory');
+      await b.store.put('inventory', 'p1', { productId: 1, quantity: 7, counter: { increments: { baseline: 10 }, decrements: { B: 3 } } });
+      await pull(b, server, 'inventory');
+
+      expect((await b.store.get('inventory', 'p1'))?.data).toMatchObject({ quantity: 5 });
+    });
+  });
+});
@@ -0,0 +1,78 @@
+import './browserEnvironment';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { getQuantity, recordRestock } from '../src/features/inventory/inventory';
+import type { Order } from '../src/features/orders/ordersSlice';
+import { placeOrder } from '../src/features/orders/placeOrder';
+import { offlineStore } from '../src/lib/OfflineDataStore';
+import { printManager } from '../src/lib/PrintJobManager';
+import { ValidationError } from '../src/lib/schema';
+
+function order(id: string, items: Array<[productId: number, quantity: number]>): Order {
+  return {
+    id,
+    items: items.map(([productId, quantity]) => ({ id: productId, name: 'Latte', quantity, price: 4.5 })),
+    total: 4.5,
+    status: 'pending',
+    createdAt: '2026-01-01T09:00:00.000Z',
+  };
+}
+
+beforeAll(async () => {
+  await offlineStore.init();
+  // No server here: keep queued writes in the queue
+  window.dispatchEvent(new Event('offline'));
+
+  await printManager.registerPrinter({
+    id: 'kitchen-1',
+    name: 'Kitchen',
+    address: '10.0.0.5:9100',
+    destination: 'kitchen',
+    protocol: 'escpos',
+    paperWidth: 80,
+    enabled: true,
+  });
+});
+
+afterAll(() => offlineStore.close());
+
+describe('placeOrder', () => {
+  it('saves the order, takes the stock and queues both for sync', async () => {
+    await recordRestock(1, 10);
+    await placeOrder(order('o1', [[1, 3]]));
+
+    expect(await offlineStore.get('orders', 'o1')).toMatchObject({ syncStatus: 'pending' });
+    expect(await getQuantity(1)).toBe(7);
+    expect(await offlineStore.getQueuedWrites()).toEqual([
+      // The restock and the sale coalesce into one write
+      expect.objectContaining({ store: 'inventory', data: { id: '1', data: expect.objectContaining({ quantity: 7 }) } }),
+      expect.objectContaining({ store: 'orders', data: { id: 'o1', data: order('o1', [[1, 3]]) } }),
+    ]);
+  });
+
+  it('writes nothing when one of its writes fails validation', async () => {
+    await recordRestock(2, 10);
+    // Stock written by an older release, which the sale can no longer turn into a valid record
+    await offlineStore.executeMultiStoreTransaction(['inventory'], 'readwrite', (stores) => {
+      stores.get('inventory')!.put({
+        id: '3',
+        data: { productId: '3', quantity: 4, counter: { increments: { baseline: 4 }, decrements: {} } },
+        version: 1,
+        deviceId: 'legacy',
+        timestamp: 0,
+        vectorClock: { legacy: 1 },
+        syncStatus: 'synced',
+      });
+    });
+    const queued = await offlineStore.getQueuedWrites();
+    const schedule = vi.spyOn(printManager, 'schedule');
+
+    await expect(placeOrder(order('o2', [[2, 1], [3, 1]]), { printTo: 'kitchen' })).rejects.toThrow(ValidationError);
+
+    expect(await offlineStore.get('orders', 'o2')).toBeNull();
+    expect(await getQuantity(2)).toBe(10);
+    expect(await offlineStore.get('inventory', '3')).toMatchObject({ data: { quantity: 4 }, syncStatus: 'synced' });
+    expect(await offlineStore.getQueuedWrites()).toEqual(queued);
+    expect(await offlineStore.query('printJobs')).toHaveLength(0);
+    expect(schedule).not.toHaveBeenCalled();
+  });
+});
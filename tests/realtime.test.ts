@@ -0,0 +1,114 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import type { ChangeEvent } from '../src/lib/protocol';
+import { LocalRealtimeServer, RealtimeChannel, type RealtimeStatus } from '../src/lib/realtime';
+import { ManualNetwork } from '../src/lib/storage';
+import { ManualClock, settle } from './helpers';
+
+const channels: RealtimeChannel[] = [];
+
+/**
+ * A channel on a manual clock, with jitter off so every backoff waits its full ceiling
+ */
+function connect(server = new LocalRealtimeServer(), network = new ManualNetwork()) {
+  const clock = new ManualClock();
+  const received: ChangeEvent[] = [];
+  const statuses: RealtimeStatus[] = [];
+  let polls = 0;
+
+  const channel = new RealtimeChannel({
+    url: 'ws://test/realtime',
+    createSocket: server.createSocket,
+    onChanges: (event) => void received.push(event),
+    onPoll: () => void polls++,
+    pollInterval: 5000,
+    reconnectDelay: 1000,
+    clock,
+    network,
+    random: () => 1,
+  });
+  channel.subscribe((status) => statuses.push(status));
+  channel.start();
+  channels.push(channel);
+
+  return { channel, server, network, clock, received, statuses, polls: () => polls };
+}
+
+function changes(cursor: string): ChangeEvent {
+  return { type: 'changes', entity: 'orders', items: [], since: String(Number(cursor) - 1), cursor };
+}
+
+afterEach(() => {
+  channels.splice(0).forEach((channel) => channel.stop());
+});
+
+describe('RealtimeChannel', () => {
+  it('delivers change events in order and skips invalid ones', async () => {
+    const { channel, server, received, polls } = connect();
+    await settle();
+
+    expect(channel.getStatus()).toBe('open');
+    expect(polls()).toBe(1); // Catch-up on connect
+
+    server.broadcast(changes('1'));
+    server.broadcast('{"type":"changes"');
+    server.broadcast(changes('2'));
+    await settle();
+
+    expect(received.map((event) => event.cursor)).toEqual(['1', '2']);
+  });
+
+  it('polls while disconnected and stops once it reconnects', async () => {
+    const { channel, server, clock, statuses, polls } = connect();
+    await settle();
+
+    server.setAccepting(false);
+    server.disconnectAll();
+    expect(channel.getStatus()).toBe('polling');
+
+    clock.advance(1000); // First reconnect, refused
+    await settle();
+    clock.advance(2000); // Second reconnect, refused
+    await settle();
+    clock.advance(2000);
+    await settle();
+    expect(polls()).toBe(2); // The catch-up, then one poll at 5s
+
+    server.setAccepting(true);
+    clock.advance(4000); // Third reconnect, after the doubled backoff
+    await settle();
+
+    expect(channel.getStatus()).toBe('open');
+    expect(server.connections).toBe(1);
+    expect(statuses).toEqual([
+      'connecting', 'open',
+      'polling', 'connecting', // Refused
+      'polling', 'connecting', // Refused
+      'polling', 'connecting', 'open',
+    ]);
+
+    const afterReconnect = polls();
+    clock.advance(20000);
+    await settle();
+    expect(polls()).toBe(afterReconnect);
+  });
+
+  it('stops polling offline and reconnects as soon as the network returns', async () => {
+    const network = new ManualNetwork();
+    const { channel, server, clock, polls } = connect(new LocalRealtimeServer(), network);
+    await settle();
+
+    network.setOnline(false);
+    server.disconnectAll();
+    clock.advance(60000);
+    await settle();
+    expect(polls()).toBe(1);
+    expect(server.connections).toBe(0);
+
+    network.setOnline(true);
+    await settle();
+
+    expect(channel.getStatus()).toBe('open');
+    expect(server.connections).toBe(1);
+    expect(polls()).toBe(2); // Catch-up after reconnecting
+  });
+});
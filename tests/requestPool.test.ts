@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { RequestPool, forEachConcurrently } from '../src/lib/requestPool';
+import { settle } from './helpers';
+
+// A request that finishes when the test says so
+function deferred() {
+  let finish!: () => void;
+  const done = new Promise<void>((resolve) => (finish = resolve));
+  return { done, finish };
+}
+
+describe('RequestPool', () => {
+  it('hands free slots to higher-priority requests first, then by arrival', async () => {
+    const pool = new RequestPool(1);
+    const started: string[] = [];
+    const blocker = deferred();
+
+    const running = [pool.run(0, () => blocker.done)];
+    // Queued while the only slot is taken: a catalog page, then an order push
+    for (const [name, priority] of [['products-1', 2], ['inventory', 1], ['products-2', 2], ['orders', 0]] as const) {
+      running.push(pool.run(priority, async () => void started.push(name)));
+    }
+    await settle();
+    expect(started).toEqual([]);
+
+    blocker.finish();
+    await Promise.all(running);
+
+    expect(started).toEqual(['orders', 'inventory', 'products-1', 'products-2']);
+  });
+
+  it('never runs more requests than its limit', async () => {
+    const pool = new RequestPool(3);
+    const requests = Array.from({ length: 5 }, deferred);
+    let inFlight = 0;
+    let maxInFlight = 0;
+
+    const running = requests.map(({ done }) =>
+      pool.run(0, async () => {
+        maxInFlight = Math.max(maxInFlight, ++inFlight);
+        await done;
+        inFlight--;
+      })
+    );
+    await settle();
+    expect(inFlight).toBe(3);
+
+    requests.forEach(({ finish }) => finish());
+    await Promise.all(running);
+    expect(maxInFlight).toBe(3);
+  });
+
+  it('frees the slot of a failed request', async () => {
+    const pool = new RequestPool(1);
+
+    await expect(pool.run(0, () => Promise.reject(new Error('Upload failed')))).rejects.toThrow('Upload failed');
+
+    await expect(pool.run(0, async () => 'next')).resolves.toBe('next');
+  });
+});
+
+describe('forEachConcurrently', () => {
+  it('keeps at most `limit` items in flight', async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const done: number[] = [];
+
+    await forEachConcurrently([1, 2, 3, 4, 5], 2, async (item) => {
+      maxInFlight = Math.max(maxInFlight, ++inFlight);
+      await settle(1);
+      inFlight--;
+      done.push(item);
+    });
+
+    expect(maxInFlight).toBe(2);
+    expect(done.sort()).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it('stops starting items after the first failure', async () => {
+    const started: number[] = [];
+
+    const run = forEachConcurrently([1, 2, 3, 4], 1, async (item) => {
+      started.push(item);
+      if (item === 2) throw new Error('Batch 2 failed');
+    });
+
+    await expect(run).rejects.toThrow('Batch 2 failed');
+    expect(started).toEqual([1, 2]);
+  });
+});
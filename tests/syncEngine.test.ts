@@ -0,0 +1,317 @@
+import './browserEnvironment';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { DeviceRegistry } from '../server/auth';
+import { startSyncServer, type RunningSyncServer } from '../server/syncServer';
+import { offlineStore } from '../src/lib/OfflineDataStore';
+import { deviceAuth } from '../src/lib/deviceAuth';
+import { summarizeSyncProgress, type SyncProgressSummary } from '../src/hooks/useSyncEngine';
+import { syncEngine, type EntityType, type SyncPolicy, type SyncState } from '../src/lib/SyncEngine';
+import { useApiOrigin } from './browserEnvironment';
+
+let server: RunningSyncServer;
+const requests: string[] = [];
+
+function order(id: string, fields: Record<string, unknown> = {}) {
+  return {
+    id,
+    items: [{ id: 1, name: 'Latte', quantity: 1, price: 4.5 }],
+    total: 4.5,
+    status: 'pending',
+    createdAt: '2026-01-01T09:00:00.000Z',
+    ...fields,
+  };
+}
+
+/**
+ * A write made on another device, straight into the server
+ */
+function remoteWrite(id: string, fields: Record<string, unknown>, vectorClock: Record<string, number>) {
+  const outcome = server.store.write('orders', { ...order(id), ...fields, vectorClock, deviceId: 'other-till' });
+  expect(outcome.status).toBe('accepted');
+}
+
+async function syncOrders(): Promise<void> {
+  while ((await syncEngine.getSyncStats()).syncInProgress) {
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+  await syncEngine.sync({ entities: ['orders'] });
+  expect(syncEngine.getSyncState('orders')).toMatchObject({ status: 'success' });
+}
+
+beforeAll(async () => {
+  const auth = new DeviceRegistry();
+  server = await startSyncServer({ auth });
+  useApiOrigin(server.url);
+
+  const fetch = globalThis.fetch;
+  globalThis.fetch = (input, init) => {
+    requests.push(`${init?.method ?? 'GET'} ${String(input).split('?')[0]}`);
+    return fetch(input, init);
+  };
+
+  await offlineStore.init();
+  await deviceAuth.ready();
+  await deviceAuth.enroll(auth.createEnrollmentCode('store-1').code);
+
+  // The write queue is covered on its own; with the store offline, every push is SyncEngine's
+  window.dispatchEvent(new Event('offline'));
+});
+
+afterAll(async () => {
+  syncEngine.stopAutoSync();
+  await offlineStore.close();
+  await server.close();
+});
+
+describe('SyncEngine against the reference server', () => {
+  it('pushes local writes in batches', async () => {
+    await offlineStore.put('orders', 'push-1', order('push-1'));
+    await offlineStore.put('orders', 'push-2', order('push-2', { total: 9 }));
+    requests.length = 0;
+
+    await syncOrders();
+
+    expect(requests).toContain('POST /api/v1/orders/batch');
+    expect(server.store.get('orders', 'push-2')).toMatchObject({ total: 9, version: 1 });
+    expect(await offlineStore.get('orders', 'push-1')).toMatchObject({ syncStatus: 'synced', serverVersion: 1 });
+  });
+
+  it('pulls the change feed page by page', async () => {
+    for (let i = 0; i < 25; i++) {
+      remoteWrite(`pull-${i}`, { total: i }, { 'other-till': 1 });
+    }
+    syncEngine.setSyncPolicy('orders', { batchSize: 10 });
+    requests.length = 0;
+
+    await syncOrders();
+
+    expect(requests.filter((request) => request === 'GET /api/v1/orders/changes')).toHaveLength(3);
+    expect(await offlineStore.get('orders', 'pull-24')).toMatchObject({ data: { total: 24 }, syncStatus: 'synced' });
+    const cursor = String(server.store.changes('orders', 0, 500).items.at(-1)!.updatedAt);
+    expect(await offlineStore.getSyncCursor('orders')).toBe(cursor);
+  });
+
+  it('reports items, bytes and ETA page by page while pulling', async () => {
+    for (let i = 0; i < 25; i++) {
+      remoteWrite(`progress-${i}`, { total: i }, { 'other-till': 1 });
+    }
+    syncEngine.setSyncPolicy('orders', { batchSize: 10 });
+
+    const fetch = globalThis.fetch;
+    const pageBytes: number[] = [];
+    globalThis.fetch = async (input, init) => {
+      const response = await fetch(input, init);
+      if (String(input).includes('/orders/changes')) {
+        pageBytes.push(Number(response.headers.get('Content-Length')));
+      }
+      return response;
+    };
+    const pages: SyncState[] = [];
+    const summaries: SyncProgressSummary[] = [];
+    const unsubscribe = syncEngine.subscribe((states) => {
+      const state = states.get('orders')!;
+      // One report per page; other updates repeat the last one
+      if (state.status === 'syncing' && state.itemsSynced > (pages.at(-1)?.itemsSynced ?? 0)) {
+        pages.push(state);
+        summaries.push(summarizeSyncProgress(states));
+      }
+    });
+
+    try {
+      await syncOrders();
+    } finally {
+      unsubscribe();
+      globalThis.fetch = fetch;
+    }
+
+    expect(pageBytes).toHaveLength(3);
+    const bytesSoFar = (page: number) => pageBytes.slice(0, page + 1).reduce((sum, bytes) => sum + bytes, 0);
+    expect(pages.map(({ itemsSynced, itemsTotal, progress }) => [itemsSynced, itemsTotal, progress])).toEqual([
+      [10, 25, 40],
+      [20, 25, 80],
+      [25, 25, 99],
+    ]);
+    pages.forEach((page, i) => {
+      expect(page.bytesTransferred).toBe(bytesSoFar(i));
+      expect(page.eta).toEqual(expect.any(Number));
+    });
+    expect(pages[2].eta).toBe(0);
+
+    expect(summaries[1]).toMatchObject({
+      syncing: ['orders'],
+      itemsSynced: 20,
+      itemsTotal: 25,
+      bytesTransferred: bytesSoFar(1),
+      progress: 80,
+    });
+    expect(syncEngine.getSyncState('orders')).toMatchObject({ progress: 100, eta: 0, bytesTransferred: bytesSoFar(2) });
+  });
+
+  it("keeps up to the entity's parallelism of push batches in flight", async () => {
+    const policy = syncEngine.getSyncPolicy('orders');
+    syncEngine.setSyncPolicy('orders', { batchSize: 1, parallelism: 2 });
+    for (let i = 0; i < 4; i++) {
+      await offlineStore.put('orders', `parallel-${i}`, order(`parallel-${i}`));
+    }
+
+    const fetch = globalThis.fetch;
+    let inFlight = 0;
+    let maxInFlight = 0;
+    let batches = 0;
+    globalThis.fetch = async (input, init) => {
+      if (!String(input).endsWith('/orders/batch')) return fetch(input, init);
+      batches++;
+      maxInFlight = Math.max(maxInFlight, ++inFlight);
+      try {
+        return await fetch(input, init);
+      } finally {
+        inFlight--;
+      }
+    };
+
+    try {
+      await syncOrders();
+    } finally {
+      globalThis.fetch = fetch;
+      syncEngine.setSyncPolicy('orders', policy);
+    }
+
+    expect(batches).toBe(4);
+    expect(maxInFlight).toBe(2);
+    expect(server.store.get('orders', 'parallel-3')).toMatchObject({ version: 1 });
+  });
+
+  it('merges a write that conflicts with another device and pushes the result', async () => {
+    await offlineStore.put('orders', 'conflict-1', order('conflict-1'));
+    await syncOrders();
+    const { vectorClock } = (await offlineStore.get('orders', 'conflict-1'))!;
+
+    // Another till moves the order on while this one changes its total
+    remoteWrite('conflict-1', { status: 'ready' }, { ...vectorClock, 'other-till': 1 });
+    await offlineStore.put('orders', 'conflict-1', order('conflict-1', { total: 12 }));
+
+    await syncOrders(); // Refused as a conflict, merged locally
+    await syncOrders(); // Merged version pushed
+
+    expect(server.store.get('orders', 'conflict-1')).toMatchObject({ status: 'ready', total: 12 });
+    expect(await offlineStore.get('orders', 'conflict-1')).toMatchObject({
+      data: expect.objectContaining({ status: 'ready', total: 12 }),
+      syncStatus: 'synced',
+    });
+  });
+
+  it('does not cancel runs started after a cancel', async () => {
+    await offlineStore.put('orders', 'cancel-1', order('cancel-1'));
+
+    const cancelled = syncEngine.sync({ entities: ['orders'] });
+    while ((syncEngine.getSyncState('orders') as SyncState).status !== 'syncing') {
+      await new Promise((resolve) => setTimeout(resolve, 1));
+    }
+    syncEngine.cancelSync();
+    // Starts while the cancelled run is still winding down
+    const next = syncEngine.sync({ entities: ['inventory'] });
+    await Promise.all([cancelled, next]);
+
+    expect(syncEngine.getSyncState('orders')).toMatchObject({ status: 'error', lastError: 'Sync cancelled' });
+    expect(syncEngine.getSyncState('inventory')).toMatchObject({ status: 'success' });
+
+    await syncOrders();
+    expect(server.store.get('orders', 'cancel-1')).toMatchObject({ version: 1 });
+  });
+
+  it('sends local deletes and applies deletes from the server', async () => {
+    await offlineStore.put('orders', 'delete-local', order('delete-local'));
+    await offlineStore.put('orders', 'delete-remote', order('delete-remote'));
+    await syncOrders();
+
+    await offlineStore.delete('orders', 'delete-local');
+    server.store.remove('orders', 'delete-remote');
+    await syncOrders();
+
+    expect(server.store.get('orders', 'delete-local')).toMatchObject({ deletedAt: expect.any(Number) });
+    expect(await offlineStore.get('orders', 'delete-local')).toBeNull();
+    expect(await offlineStore.get('orders', 'delete-remote')).toBeNull();
+    expect(await offlineStore.get('orders', 'delete-remote', { includeDeleted: true })).toMatchObject({
+      deletedAt: expect.any(Number),
+    });
+  });
+
+});
+
+describe('summarizeSyncProgress', () => {
+  function state(updates: Partial<SyncState>): SyncState {
+    return {
+      status: 'syncing',
+      lastSync: null,
+      lastError: null,
+      itemsSynced: 0,
+      itemsTotal: null,
+      itemsPending: 0,
+      bytesTransferred: 0,
+      throughput: 0,
+      eta: null,
+      progress: 0,
+      ...updates,
+    };
+  }
+
+  it('adds up the entities syncing now and waits on the slowest', () => {
+    const summary = summarizeSyncProgress(
+      new Map<EntityType, SyncState>([
+        ['orders', state({ itemsSynced: 30, itemsTotal: 40, bytesTransferred: 3000, throughput: 600, eta: 2000 })],
+        ['inventory', state({ itemsSynced: 10, itemsTotal: 60, bytesTransferred: 1000, throughput: 200, eta: 9000 })],
+        ['products', state({ status: 'success', itemsSynced: 500, itemsTotal: 500, eta: 0 })],
+      ])
+    );
+
+    expect(summary).toEqual({
+      syncing: ['orders', 'inventory'],
+      itemsSynced: 40,
+      itemsTotal: 100,
+      bytesTransferred: 4000,
+      throughput: 800,
+      eta: 9000,
+      progress: 40,
+    });
+  });
+
+  it('leaves the total and ETA unknown while any entity has not reported its total', () => {
+    const summary = summarizeSyncProgress(
+      new Map<EntityType, SyncState>([
+        ['orders', state({ itemsSynced: 30, itemsTotal: 40, eta: 2000 })],
+        ['products', state({ itemsSynced: 200 })],
+      ])
+    );
+
+    expect(summary).toMatchObject({ itemsSynced: 230, itemsTotal: null, eta: null, progress: 0 });
+  });
+});
+
+describe('sync policies', () => {
+  it('rejects invalid policies and keeps the current one', () => {
+    const policy = syncEngine.getSyncPolicy('inventory');
+    const invalid: Array<Partial<SyncPolicy>> = [
+      { interval: 0 },
+      { interval: Number.NaN },
+      { batchSize: 0 },
+      { batchSize: 2.5 },
+      { parallelism: 0 },
+      { priority: Number.NaN },
+      { direction: 'sideways' as SyncPolicy['direction'] },
+    ];
+
+    for (const updates of invalid) {
+      expect(() => syncEngine.setSyncPolicy('inventory', updates)).toThrow('Invalid sync policy for inventory');
+    }
+    expect(syncEngine.getSyncPolicy('inventory')).toEqual(policy);
+  });
+
+  it('applies a valid update on top of the current policy', () => {
+    const policy = syncEngine.getSyncPolicy('products');
+
+    syncEngine.setSyncPolicy('products', { direction: 'pull', interval: 60000 });
+
+    expect(syncEngine.getSyncPolicy('products')).toEqual({ ...policy, direction: 'pull', interval: 60000 });
+    syncEngine.setSyncPolicy('products', policy);
+  });
+});
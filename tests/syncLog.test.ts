@@ -0,0 +1,74 @@
+import './browserEnvironment';
+import { beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { offlineStore } from '../src/lib/OfflineDataStore';
+import { syncEngine } from '../src/lib/SyncEngine';
+
+function recordPulls(from: number, to: number): void {
+  for (let i = from; i < to; i++) {
+    offlineStore.syncLog.record({ event: 'pull', entity: 'orders', message: `Pull ${i}` });
+  }
+}
+
+beforeAll(async () => {
+  await offlineStore.init();
+});
+
+beforeEach(async () => {
+  await offlineStore.syncLog.clear();
+});
+
+describe('SyncLog', () => {
+  it('drops the oldest entries once it holds more than 2000', async () => {
+    recordPulls(0, 1500);
+    await offlineStore.syncLog.flush();
+    recordPulls(1500, 2100);
+
+    const entries = await offlineStore.syncLog.list({ limit: Infinity });
+
+    expect(entries).toHaveLength(2000);
+    expect(entries[0].message).toBe('Pull 2099');
+    expect(entries[entries.length - 1].message).toBe('Pull 100');
+  });
+
+  it('keeps the first ids of a batch and the full count', async () => {
+    const ids = Array.from({ length: 150 }, (_, i) => `order-${i}`);
+    offlineStore.syncLog.record({ event: 'push', entity: 'orders', ids, message: 'Pushed batch' });
+
+    const [entry] = await offlineStore.syncLog.list();
+
+    expect(entry.ids).toHaveLength(100);
+    expect(entry.ids![0]).toBe('order-0');
+    expect(entry.count).toBe(150);
+    expect(entry.level).toBe('info');
+  });
+
+  it('filters by event and level, newest first', async () => {
+    offlineStore.syncLog.record({ event: 'pull', message: 'Pulled' });
+    offlineStore.syncLog.record({ event: 'conflict', entity: 'inventory', message: 'First conflict' });
+    offlineStore.syncLog.record({ event: 'error', message: 'Failed' });
+    offlineStore.syncLog.record({ event: 'conflict', entity: 'inventory', message: 'Second conflict' });
+
+    const conflicts = await offlineStore.syncLog.list({ event: 'conflict' });
+    const errors = await offlineStore.syncLog.list({ level: 'error' });
+
+    expect(conflicts.map((entry) => entry.message)).toEqual(['Second conflict', 'First conflict']);
+    expect(conflicts[0].level).toBe('warn');
+    expect(errors.map((entry) => entry.message)).toEqual(['Failed']);
+  });
+});
+
+describe('exportDiagnostics', () => {
+  it('includes the whole capped log and survives a JSON round trip', async () => {
+    recordPulls(0, 2010);
+
+    const bundle = await syncEngine.exportDiagnostics();
+    const saved = JSON.parse(JSON.stringify(bundle));
+
+    expect(saved.log).toHaveLength(2000);
+    expect(saved.log[0].message).toBe('Pull 2009');
+    expect(saved.deviceId).toBe(offlineStore.getDeviceId());
+    expect(saved.userAgent).toBe('vitest');
+    expect(Object.keys(saved.syncState)).toEqual(expect.arrayContaining(['orders', 'inventory']));
+    expect(saved.queuedWrites).toEqual([]);
+  });
+});
@@ -0,0 +1,70 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { DeviceRegistry } from '../server/auth';
+import { startSyncServer, type RunningSyncServer } from '../server/syncServer';
+import type { DeviceCredentials } from '../src/lib/protocol';
+
+let server: RunningSyncServer;
+let auth: DeviceRegistry;
+
+function enroll(deviceId: string): DeviceCredentials {
+  const outcome = auth.enroll({ code: auth.createEnrollmentCode('store-1').code, deviceId });
+  if (outcome.status !== 'issued') throw new Error(`Could not enroll ${deviceId}`);
+  return outcome.credentials;
+}
+
+function putOrder(id: string, total: number, idempotencyKey: string, accessToken?: string) {
+  return fetch(`${server.url}/orders/${id}`, {
+    method: 'PUT',
+    headers: {
+      'Content-Type': 'application/json',
+      'Idempotency-Key': idempotencyKey,
+      ...(accessToken && { Authorization: `Bearer ${accessToken}` }),
+    },
+    body: JSON.stringify({ id, total, vectorClock: { [idempotencyKey]: total } }),
+  });
+}
+
+beforeAll(async () => {
+  auth = new DeviceRegistry();
+  server = await startSyncServer({ auth });
+});
+
+afterAll(() => server.close());
+
+describe('sync server replay cache', () => {
+  it('replays a retried write to the device that made it', async () => {
+    const { accessToken } = enroll('till-1');
+
+    expect((await putOrder('o1', 5, 'key-1', accessToken)).status).toBe(200);
+    const retry = await putOrder('o1', 9, 'key-1', accessToken);
+
+    expect(retry.status).toBe(200);
+    expect(server.store.get('orders', 'o1')).toMatchObject({ total: 5, version: 1 });
+  });
+
+  it('checks the token before replaying', async () => {
+    const { accessToken } = enroll('till-2');
+    await putOrder('o2', 5, 'key-2', accessToken);
+
+    expect((await putOrder('o2', 5, 'key-2')).status).toBe(401);
+    expect((await putOrder('o2', 5, 'key-2', 'stolen')).status).toBe(401);
+  });
+
+  it('does not remember a refused token', async () => {
+    const { accessToken } = enroll('till-3');
+
+    expect((await putOrder('o3', 5, 'key-3', 'expired')).status).toBe(401);
+    expect((await putOrder('o3', 5, 'key-3', accessToken)).status).toBe(200);
+    expect(server.store.get('orders', 'o3')).toMatchObject({ version: 1 });
+  });
+
+  it('keeps replies of different devices apart', async () => {
+    const first = enroll('till-4');
+    const second = enroll('till-5');
+
+    await putOrder('o4', 5, 'key-4', first.accessToken);
+    await putOrder('o4', 7, 'key-4', second.accessToken);
+
+    expect(server.store.get('orders', 'o4')).toMatchObject({ total: 7, version: 2 });
+  });
+});
@@ -0,0 +1,97 @@
+import './browserEnvironment';
+import { closeLeaderTab } from './followerTab';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { syncEngine } from '../src/lib/SyncEngine';
+import { BrowserTabCoordinator, tabCoordinator } from '../src/lib/tabCoordinator';
+import { FakeLockManager } from './browserEnvironment';
+import { settle } from './helpers';
+
+const opened: BrowserTabCoordinator[] = [];
+let locks: FakeLockManager;
+
+// Tabs of one browser: same lock manager, same channel name
+function openTabs(count: number): BrowserTabCoordinator[] {
+  const tabs = Array.from({ length: count }, () => new BrowserTabCoordinator({ name: 'test-tabs', locks }));
+  opened.push(...tabs);
+  return tabs;
+}
+
+beforeEach(() => {
+  locks = new FakeLockManager();
+});
+
+afterEach(() => {
+  opened.splice(0).forEach((tab) => tab.close());
+});
+
+describe('BrowserTabCoordinator', () => {
+  it('elects the first tab and tells the others who leads', async () => {
+    const [first, second] = openTabs(2);
+    await settle();
+
+    expect(first.isLeader()).toBe(true);
+    expect(second.isLeader()).toBe(false);
+    expect(first.getLeaderId()).toBe(first.tabId);
+    expect(second.getLeaderId()).toBe(first.tabId);
+  });
+
+  it('tells a tab opened later who leads', async () => {
+    const [first] = openTabs(1);
+    await settle();
+    const [late] = openTabs(1);
+    await settle();
+
+    expect(late.isLeader()).toBe(false);
+    expect(late.getLeaderId()).toBe(first.tabId);
+  });
+
+  it('hands leadership to the next tab when the leader closes', async () => {
+    const [first, second, third] = openTabs(3);
+    await settle();
+    const roles: boolean[] = [];
+    second.onLeadershipChange((isLeader) => roles.push(isLeader));
+
+    first.close();
+    await settle();
+
+    expect(second.isLeader()).toBe(true);
+    expect(third.isLeader()).toBe(false);
+    expect(third.getLeaderId()).toBe(second.tabId);
+    expect(roles).toContain(true);
+  });
+
+  it('relays messages to the other tabs but not back to the sender', async () => {
+    const [first, second] = openTabs(2);
+    const toFirst = vi.fn();
+    const toSecond = vi.fn();
+    first.on('print:cancel', toFirst);
+    second.on('print:cancel', toSecond);
+
+    first.publish('print:cancel', { id: 'job-1' });
+    await settle();
+
+    expect(toSecond).toHaveBeenCalledWith({ id: 'job-1' }, first.tabId);
+    expect(toFirst).not.toHaveBeenCalled();
+  });
+});
+
+describe('startup sync', () => {
+  it('runs only once this tab leads', async () => {
+    const sync = vi.spyOn(syncEngine, 'sync').mockResolvedValue();
+    try {
+      syncEngine.startAutoSync();
+      await settle();
+      expect(tabCoordinator.isLeader()).toBe(false);
+      expect(sync).not.toHaveBeenCalled();
+
+      closeLeaderTab();
+      await settle();
+      expect(tabCoordinator.isLeader()).toBe(true);
+      expect(sync).toHaveBeenCalledTimes(1);
+      expect(sync).toHaveBeenCalledWith({ fullSync: false });
+    } finally {
+      syncEngine.stopAutoSync();
+      sync.mockRestore();
+    }
+  });
+});
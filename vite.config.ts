@@ -1,10 +1,67 @@
-import { defineConfig } from 'vite'
+/// <reference types="vitest/config" />
+import { defineConfig, build, type Plugin, type ResolvedConfig } from 'vite'
 import react from '@vitejs/plugin-react'
+import { createHash } from 'node:crypto'
 import path from 'path'
 
+/**
+ * Bundles `src/serviceWorker.ts` into a self-contained `/sw.js` once the app
+ * is built, with the list of emitted files (and a version derived from
+ * them) baked in for precaching.
+ */
+function serviceWorker(): Plugin {
+  let config: ResolvedConfig
+  let files: string[] = []
+
+  return {
+    name: 'pos-service-worker',
+    apply: 'build',
+    configResolved(resolved) {
+      config = resolved
+    },
+    writeBundle(_, bundle) {
+      files = Object.keys(bundle)
+        .filter((file) => !file.endsWith('.map'))
+        .map((file) => `${config.base}${file}`)
+        .sort()
+    },
+    async closeBundle() {
+      const version = createHash('sha256').update(files.join('\n')).digest('hex').slice(0, 12)
+
+      await build({
+        configFile: false,
+        logLevel: 'warn',
+        define: {
+          __PRECACHE_MANIFEST__: JSON.stringify({ version, files: [config.base, ...files] }),
+        },
+        build: {
+          outDir: config.build.outDir,
+          emptyOutDir: false,
+          copyPublicDir: false,
+          lib: {
+            entry: path.resolve(__dirname, 'src/serviceWorker.ts'),
+            name: 'serviceWorker',
+            formats: ['iife'],
+            fileName: () => 'sw.js',
+          },
+        },
+      })
+    },
+  }
+}
+
 // https://vite.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), serviceWorker()],
+  server: {
+    // `npm run server` serves the sync API locally
+    proxy: {
+      "/api": {
+        target: process.env.SYNC_SERVER_URL ?? "http://localhost:3001",
+        ws: true, // Realtime change events
+      },
+    },
+  },
   resolve:{
     alias:{
       "@": path.resolve(__dirname, "./src"),
@@ -13,5 +70,11 @@ export default defineConfig({
       "@pages": path.resolve(__dirname, "./src/pages"),
       "@store": path.resolve(__dirname, "./src/app/store"),
     }
-  }
+  },
+  test: {
+    // Node with fake-indexeddb and the reference server; see tests/helpers.ts
+    include: ["tests/**/*.test.ts"],
+    environment: "node",
+    silent: "passed-only", // Sync logging only for failures
+  },
 })